@@ -7,8 +7,9 @@
  *  - getTabbables(root): robust tabbable element query
  *  - focusFirst(root, fallback?): focus management helper
  *  - trapFocus(container, opts?): keep Tab/Shift+Tab within container; returns { release() }
- *  - ariaHideSiblings(target): hide everything except target; returns restore()
+ *  - ariaHideSiblings(target): hide everything except target's branch; returns restore()
  *  - createLiveRegion(kind): get/create polite/assertive live region for toasts
+ *  - announce(text, politeness?): speak text through the shared live regions
  *
  * No external deps. No async/await. Works with ES2019 + DOM libs.
  */
@@ -18,6 +19,7 @@ export type LiveKind = 'polite' | 'assertive';
 export interface TrapOptions {
   initialFocus?: HTMLElement | null;   // element to focus on activate
   restoreFocus?: HTMLElement | null;   // element to restore on release (default: previously focused)
+  isActive?: () => boolean;            // when provided, Tab is only handled while this returns true (stacked traps)
 }
 
 /** Return all tabbable descendants within root (in DOM order). */
@@ -120,6 +122,7 @@ export function trapFocus(container: HTMLElement, opts?: TrapOptions): { release
 
   const onKeyDown = (e: KeyboardEvent) => {
     if (e.key !== 'Tab') return;
+    if (opts?.isActive && !opts.isActive()) return;
     const tabbables = getTabbables(container);
     if (tabbables.length === 0) {
       // Keep focus on container
@@ -157,29 +160,55 @@ export function trapFocus(container: HTMLElement, opts?: TrapOptions): { release
   return { release };
 }
 
+// Elements currently hidden by ariaHideSiblings: how many open layers hide each one,
+// and the aria-hidden value to put back once the last of them is released
+const ariaHidden = new Map<Element, { count: number; prev: string | null }>();
+
+// Never hidden: toasts and their announcements must stay audible while a modal is open
+const ARIA_HIDE_EXEMPT = '#pj-live-polite, #pj-live-assertive, .pj-toasts';
+
 /**
  * Hide everything except the target from assistive tech by toggling aria-hidden.
- * Returns a restore() function that reverts previous values.
+ * Siblings are hidden at every level between the target and <body>, so a
+ * stacked overlay also hides the overlays beneath it inside the portal.
+ * Hidden elements are ref-counted across calls, so layers may be restored in
+ * any order (e.g. a parent aborted while its stacked child is still open).
+ * The toast layer and the live regions are left alone.
+ * Returns a restore() function that releases this call's hold.
  */
 export function ariaHideSiblings(target: HTMLElement): () => void {
   const doc = target.ownerDocument || document;
   const root = doc.body;
-  const stack: Array<{ el: Element; prev: string | null }> = [];
+  const held: Element[] = [];
 
-  // Walk direct children of <body>
-  Array.from(root.children).forEach((el) => {
-    if (el === target || el.contains(target)) return; // keep target branch visible
-    const prev = el.getAttribute('aria-hidden');
-    stack.push({ el, prev });
-    el.setAttribute('aria-hidden', 'true');
+  // Walk from the target up to <body>, hiding siblings of each ancestor
+  let branch: Element = target;
+  while (branch !== root && branch.parentElement) {
+    const parent: Element = branch.parentElement;
+    Array.from(parent.children).forEach((el) => {
+      if (el === branch) return; // keep target branch visible
+      if (el.matches(ARIA_HIDE_EXEMPT)) return;
+      const entry = ariaHidden.get(el);
+      if (entry) entry.count++;
+      else ariaHidden.set(el, { count: 1, prev: el.getAttribute('aria-hidden') });
+      held.push(el);
+      el.setAttribute('aria-hidden', 'true');
 
-    // If supported, also mark inert to block focus/pointer
-    // try { (el as any).inert = true; } catch { /* inert may not exist */ }
-  });
+      // If supported, also mark inert to block focus/pointer
+      // try { (el as any).inert = true; } catch { /* inert may not exist */ }
+    });
+    branch = parent;
+  }
 
+  let released = false;
   return () => {
-    for (const { el, prev } of stack) {
-      if (prev === null) el.removeAttribute('aria-hidden'); else el.setAttribute('aria-hidden', prev);
+    if (released) return;
+    released = true;
+    for (const el of held) {
+      const entry = ariaHidden.get(el);
+      if (!entry || --entry.count > 0) continue;
+      ariaHidden.delete(el);
+      if (entry.prev === null) el.removeAttribute('aria-hidden'); else el.setAttribute('aria-hidden', entry.prev);
       // try { delete (el as any).inert; } catch { /* ignore */ }
     }
   };
@@ -208,3 +237,24 @@ export function createLiveRegion(kind: LiveKind = 'polite'): HTMLElement {
   document.body.appendChild(region);
   return region;
 }
+
+const pending: Record<LiveKind, string[]> = { polite: [], assertive: [] };
+const flushTimers: Partial<Record<LiveKind, number>> = {};
+
+/**
+ * Speak text through the shared live region. The region is emptied first and filled
+ * after a short delay, so repeating the same message is announced again; messages
+ * arriving within that delay are read together.
+ */
+export function announce(text: string, politeness: LiveKind = 'polite'): void {
+  const message = text.trim();
+  if (!message || typeof document === 'undefined') return;
+  pending[politeness].push(message);
+  if (flushTimers[politeness] !== undefined) return;
+
+  createLiveRegion(politeness).textContent = '';
+  flushTimers[politeness] = window.setTimeout(() => {
+    flushTimers[politeness] = undefined;
+    createLiveRegion(politeness).textContent = pending[politeness].splice(0).join(' ');
+  }, 100);
+}
@@ -36,6 +36,20 @@ export interface PromptJSConfig {
     no: string;
     close: string; // aria label for modal close button
     dismiss: string; // aria label for toast dismiss
+    typeToConfirm?: string; // typeToConfirm() instruction; "{phrase}" is replaced
+    dontAskAgain?: string; // label for the rememberKey checkbox
+    toastGroupSummary?: string; // grouped toast title; "{count}" is replaced
+    showAll?: string; // expand a grouped toast
+    showLess?: string; // collapse a grouped toast
+    notifications?: string; // toast history drawer title
+    all?: string; // history filter: every kind
+    general?: string; // history filter: neutral toasts
+    markRead?: string;
+    markAllRead?: string;
+    clearAll?: string;
+    noNotifications?: string; // empty history drawer
+    progressPercent?: string; // toast.progress milestone announcement; "{percent}" is replaced
+    undo?: string; // toast.undo action label
     titles: {
       info: string;
       success: string;
@@ -59,21 +73,27 @@ export interface PromptJSConfig {
     backdropBlurPx: number;
   };
   modal: {
-    concurrency: ModalConcurrency;
+    concurrency: ModalConcurrency; // 'queue' | 'reject' | 'stack'
     // surfaceRgb: string;
     surfaceAlpha?: number;   // 0 to 1, default 1.0 (opaque)
     dialogBlurPx?: number;   // backdrop-filter blur behind the modal (0 = none)
   };
   toast: {
     defaultPosition: ToastPosition; // default 'top-center'
-    behavior: ToastBehavior; // 'stack' | 'queue' | 'replace'
-    maxVisible: number; // cap per position for stack/queue
+    behavior: ToastBehavior; // 'stack' | 'queue' | 'replace' | 'deck'
+    maxVisible: number; // cap per position for stack/queue/deck
     spacingPx: number; // gap between toasts inside a slot
     margins: { top: number; bottom: number; left: number; right: number };
     zBoost: number; // z-index boost above overlays
     animations: ToastAnimations; // enter/exit + timeoutCue defaults (direction may be 'auto')
     defaultTimeoutMs: number; // e.g., 5000; 0 means sticky by default
     defaultDismissible: boolean; // show close button by default
+    pauseOnHover: boolean; // pause the timeout while hovered
+    pauseOnFocus: boolean; // pause the timeout while focus is inside
+    pauseOnPageHidden: boolean; // pause the timeout while the tab is hidden
+    swipeToDismiss: { enable: boolean; distancePx: number; velocity: number }; // velocity in px/ms
+    history: { enable: boolean; limit: number }; // toast.history recording (limit 0 = unbounded)
+    hotkey: string | false; // moves focus to the newest toast, e.g. 'Alt+T' or 'F6' (default false = off)
   };
 }
 
@@ -91,6 +111,20 @@ const defaults: PromptJSConfig = {
     no: "No",
     close: "Close",
     dismiss: "Dismiss",
+    typeToConfirm: "Type {phrase} to confirm.",
+    dontAskAgain: "Don't ask me again",
+    toastGroupSummary: "{count} notifications",
+    showAll: "Show all",
+    showLess: "Show less",
+    notifications: "Notifications",
+    all: "All",
+    general: "General",
+    markRead: "Mark read",
+    markAllRead: "Mark all read",
+    clearAll: "Clear all",
+    noNotifications: "No notifications",
+    progressPercent: "{percent}% complete",
+    undo: "Undo",
     titles: {
       info: "Information",
       success: "Success",
@@ -128,6 +162,12 @@ const defaults: PromptJSConfig = {
     },
     defaultTimeoutMs: 4000,
     defaultDismissible: true,
+    pauseOnHover: true,
+    pauseOnFocus: true,
+    pauseOnPageHidden: true,
+    swipeToDismiss: { enable: true, distancePx: 80, velocity: 0.5 },
+    history: { enable: false, limit: 100 },
+    hotkey: false,
   },
 };
 
@@ -166,6 +206,14 @@ export const config = {
           ...current.toast.margins,
           ...(partial.toast?.margins || {}),
         },
+        swipeToDismiss: {
+          ...current.toast.swipeToDismiss,
+          ...(partial.toast?.swipeToDismiss || {}),
+        },
+        history: {
+          ...current.toast.history,
+          ...(partial.toast?.history || {}),
+        },
         animations: {
           ...current.toast.animations,
           ...(partial.toast?.animations || {}),
@@ -8,40 +8,177 @@
  *   - confirm(message, opts?): convenience wrapper resolving boolean
  *   - alert(message, opts?): convenience wrapper that resolves on acknowledge
  *   - prompt(message, defaultValue?, opts?): convenience wrapper for text input
+ *   - typeToConfirm(message, phrase, opts?): danger confirm gated on typing a phrase
+ *   - form(opts): schema-driven multi-field dialog; resolves values or null
+ *   - choose(opts): keyboard-navigable listbox picker; resolves id / ids or null
  *
  * Features:
  *   - All dialogs support optional title via opts.title
  *   - question() supports onDismissal for handling ESC/backdrop/close button
+ *   - question()/confirm() support rememberKey ("Don't ask again", see remember.ts)
+ *   - opts.signal aborts a dialog: the promise rejects with an AbortError
+ *     (the signal's reason), or resolves with opts.abortResult when provided
  *   - Uses modal button plumbing; no direct DOM markup required by callers
  */
 
 import { open } from './modal';
 import { config } from './config';
-import type { QuestionOptions, ConfirmOptions, AlertOptions } from './types';
+import { uid } from './utils';
+import { sanitize } from './sanitize';
+import * as remember from './remember';
+import type {
+  QuestionOptions,
+  ConfirmOptions,
+  AlertOptions,
+  FormOptions,
+  FormField,
+  FormValue,
+  ChooseOptions,
+  TypeToConfirmOptions,
+} from './types';
 
-export async function question(opts: QuestionOptions): Promise<{ id: string }> {
-  const { message, buttons, onDismissal, title, ...modalOpts } = opts;
+/** The rejection value for an aborted dialog: the signal's reason, like fetch(). */
+function abortError(signal?: AbortSignal): unknown {
+  const reason = signal?.reason;
+  if (reason !== undefined) return reason;
+  return typeof DOMException === 'function'
+    ? new DOMException('The operation was aborted.', 'AbortError')
+    : Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' });
+}
+
+/** Text rules shared by prompt() and form() fields. Returns an error message or null. */
+function checkTextRules(
+  value: string,
+  rules: { required?: boolean; minLength?: number; pattern?: string }
+): string | null {
+  const trimmed = value.trim();
+
+  if (rules.required && !trimmed) {
+    return 'This field is required';
+  }
+  if (rules.minLength && trimmed.length < rules.minLength) {
+    return `Minimum ${rules.minLength} characters required`;
+  }
+  if (rules.pattern) {
+    try {
+      const regex = new RegExp(rules.pattern);
+      if (!regex.test(value)) {
+        return 'Invalid format';
+      }
+    } catch (e) {
+      console.error('[PromptJS] Invalid regex pattern:', rules.pattern, e);
+      return 'Invalid format pattern';
+    }
+  }
+  return null;
+}
+
+/** Map a validator result: false → generic message, string → that message. */
+function validationMessage(result: boolean | string): string | null {
+  if (result === false) return 'Invalid input';
+  if (typeof result === 'string') return result;
+  return null;
+}
+
+/** Run a custom validator, treating exceptions as a validation error. */
+function runValidator(check: () => boolean | string): string | null {
+  try {
+    return validationMessage(check());
+  } catch (e) {
+    console.error('[PromptJS] Validator threw exception:', e);
+    return 'Validation error';
+  }
+}
+
+/** Like runValidator(), but awaits validators that return a Promise. */
+async function runAsyncValidator(
+  check: () => boolean | string | Promise<boolean | string>
+): Promise<string | null> {
+  try {
+    return validationMessage(await check());
+  } catch (e) {
+    console.error('[PromptJS] Validator threw exception:', e);
+    return 'Validation error';
+  }
+}
+
+/** Message to show when an onSubmit hook rejects. */
+function submitErrorMessage(e: unknown): string {
+  if (typeof e === 'string') return e;
+  if (e instanceof Error && e.message) return e.message;
+  return 'Submission failed';
+}
+
+export function question(opts: QuestionOptions): Promise<{ id: string }> {
+  return ask(opts);
+}
+
+/** question() body; `rememberable` limits which button ids "Don't ask again" may store. */
+async function ask(opts: QuestionOptions, rememberable?: string[]): Promise<{ id: string }> {
+  const { message, buttons, onDismissal, abortResult, rememberKey, title, ...modalOpts } = opts;
   
   // Validation
   if (!buttons || buttons.length === 0) {
     throw new Error('[PromptJS] question() requires at least one button');
   }
+
+  const canRemember = (id: string) => !rememberable || rememberable.includes(id);
+
+  // A remembered answer (still matching a button) resolves without opening
+  if (rememberKey) {
+    const saved = remember.get(rememberKey);
+    if (saved !== null && canRemember(saved) && buttons.some(b => b.id === saved)) return { id: saved };
+  }
+
+  // "Don't ask again" needs a Node body; plain questions keep the string path
+  let content: string | Node = message;
+  let rememberBox: HTMLInputElement | null = null;
+  if (rememberKey) {
+    const wrapper = document.createElement('div');
+    const body = document.createElement('div');
+    body.className = 'pj-question-message';
+    // Same rendering as the plain path (Modal.open content)
+    body.innerHTML = modalOpts.unsafeHTML ? message : sanitize(message);
+    wrapper.appendChild(body);
+
+    const label = document.createElement('label');
+    label.className = 'pj-form-check pj-remember';
+    rememberBox = document.createElement('input');
+    rememberBox.type = 'checkbox';
+    label.appendChild(rememberBox);
+    label.appendChild(document.createTextNode(config.get().i18n.dontAskAgain ?? "Don't ask me again"));
+    wrapper.appendChild(label);
+    content = wrapper;
+  }
   
-  return new Promise((resolve) => {
+  return new Promise((resolve, reject) => {
     const m = open({
       ...modalOpts,
       title,
-      content: message,
+      content,
       buttons: buttons.map(b => ({
         ...b,
         closeOnClick: true,
-        onClick: () => resolve({ id: b.id }),
       })),
-      onClose: (r) => {
+      onClose: (r, dismissal) => {
+        // Resolve from the actual close, so a beforeClose veto keeps the dialog pending
+        if (!dismissal && buttons.some(b => b.id === r)) {
+          // Only explicit button choices are remembered, never dismissals
+          if (rememberKey && rememberBox?.checked && canRemember(r as string)) {
+            remember.set(rememberKey, r as string);
+          }
+          resolve({ id: r as string });
+          return;
+        }
+        if (dismissal === 'abort') {
+          if (abortResult !== undefined) resolve({ id: abortResult });
+          else reject(abortError(opts.signal));
+          return;
+        }
         // Handle dismissal (ESC, backdrop, close button)
         // If onDismissal is not provided, modal won't resolve on dismissal
         // User must click a button to get a response
-        if (['esc', 'backdrop', 'close'].includes(r as string) && onDismissal) {
+        if (dismissal && onDismissal) {
           resolve({ id: onDismissal });
         }
       }
@@ -50,6 +187,7 @@ export async function question(opts: QuestionOptions): Promise<{ id: string }> {
 }
 
 export async function confirm(message: string, opts?: ConfirmOptions): Promise<boolean> {
+  const { abortResult, ...questionOpts } = opts ?? {};
   const buttons: Array<{ id: string; text: string; variant: 'primary'|'neutral'|'danger' }> = [
     { id: 'yes', text: opts?.yesText ?? 'Yes', variant: 'primary' },
     { id: 'no', text: opts?.noText ?? 'No', variant: 'neutral' },
@@ -59,34 +197,66 @@ export async function confirm(message: string, opts?: ConfirmOptions): Promise<b
     buttons.push({ id: 'cancel', text: opts?.cancelText ?? 'Cancel', variant: 'neutral' });
   }
 
-  const { id } = await question({
-    ...opts,
+  // Cancel means "not now", so only yes/no are remembered
+  const { id } = await ask({
+    ...questionOpts,
     title: opts?.title,
     message,
     buttons,
     onDismissal: 'cancel',  // Dismissal always maps to 'cancel' (returns false)
-  });
+    abortResult: abortResult === undefined ? undefined : abortResult ? 'yes' : 'no',
+  }, ['yes', 'no']);
   
   return id === 'yes';
 }
 
 export async function alert(message: string, opts?: AlertOptions): Promise<void> {
-  await new Promise<void>((resolve)=> {
-    open({
-      ...opts,
-      title: opts?.title,
-      content: message,
-      buttons: [{ 
-        id:'ok', 
-        text: opts?.okText ?? config.get().i18n.ok, 
-        variant:'primary', 
-        onClick: ()=>resolve() 
-      }],
-      closeOnEsc: true,
-      closeOnBackdrop: true,
-      onClose: () => resolve(), // Resolve on any dismissal (ESC, backdrop, close button)
-    });
-  });
+  // Settles on any close: OK button, ESC, backdrop or close button
+  const r = await open({
+    ...opts,
+    title: opts?.title,
+    content: message,
+    buttons: [{ 
+      id:'ok', 
+      text: opts?.okText ?? config.get().i18n.ok, 
+      variant:'primary', 
+    }],
+    closeOnEsc: true,
+    closeOnBackdrop: true,
+  }).result;
+  if (r.dismissed && r.reason === 'abort') throw abortError(opts?.signal);
+}
+
+/** The prompt() body: message, a single input and the inline error live region. */
+function createPromptField(
+  message: string,
+  opts: { inputType?: string; placeholder?: string; maxLength?: number; value?: string }
+): { wrapper: HTMLDivElement; messageEl: HTMLParagraphElement; input: HTMLInputElement; errorEl: HTMLDivElement } {
+  const wrapper = document.createElement('div');
+  wrapper.className = 'pj-prompt-wrapper';
+
+  const messageEl = document.createElement('p');
+  messageEl.className = 'pj-prompt-message';
+  messageEl.textContent = message;
+  wrapper.appendChild(messageEl);
+
+  const input = document.createElement('input');
+  input.type = opts.inputType ?? 'text';
+  input.className = 'pj-prompt-input';
+  input.value = opts.value ?? '';
+  input.setAttribute('autocomplete', 'off');
+  input.setAttribute('spellcheck', 'false');
+  if (opts.placeholder) input.placeholder = opts.placeholder;
+  if (opts.maxLength) input.maxLength = opts.maxLength;
+  wrapper.appendChild(input);
+
+  const errorEl = document.createElement('div');
+  errorEl.className = 'pj-prompt-error';
+  errorEl.setAttribute('role', 'alert');
+  errorEl.setAttribute('aria-live', 'polite');
+  wrapper.appendChild(errorEl);
+
+  return { wrapper, messageEl, input, errorEl };
 }
 
 export async function prompt(
@@ -94,10 +264,13 @@ export async function prompt(
   defaultValue?: string,
   opts?: import('./types').PromptOptions
 ): Promise<string | null> {
-  return new Promise((resolve) => {
+  return new Promise((resolve, reject) => {
     let inputValue = defaultValue ?? '';
     let errorEl: HTMLElement | null = null;
     let resolved = false;
+    let submittedValue: string | null = null;
+    let edits = 0;     // bumped on every keystroke; stale async results are discarded
+    let busy = false;  // async validation or onSubmit in flight
 
     // Prevent double resolution
     const safeResolve = (value: string | null) => {
@@ -107,65 +280,15 @@ export async function prompt(
       }
     };
 
-    const validateInput = (value: string): string | null => {
-      const trimmed = value.trim();
-      
-      if (opts?.required && !trimmed) {
-        return 'This field is required';
-      }
-      if (opts?.minLength && trimmed.length < opts.minLength) {
-        return `Minimum ${opts.minLength} characters required`;
-      }
-      if (opts?.pattern) {
-        try {
-          const regex = new RegExp(opts.pattern);
-          if (!regex.test(value)) {
-            return 'Invalid format';
-          }
-        } catch (e) {
-          console.error('[PromptJS] Invalid regex pattern:', opts.pattern, e);
-          return 'Invalid format pattern';
-        }
-      }
-      if (opts?.validator) {
-        try {
-          const result = opts.validator(value);
-          if (result === false) return 'Invalid input';
-          if (typeof result === 'string') return result;
-        } catch (e) {
-          console.error('[PromptJS] Validator threw exception:', e);
-          return 'Validation error';
-        }
-      }
-      return null;
-    };
 
-    const contentWrapper = document.createElement('div');
-    contentWrapper.className = 'pj-prompt-wrapper';
-    
-    const messageP = document.createElement('p');
-    messageP.className = 'pj-prompt-message';
-    messageP.textContent = message;
-    contentWrapper.appendChild(messageP);
-
-    const inputEl = document.createElement('input');
-    inputEl.type = opts?.inputType ?? 'text';
-    inputEl.className = 'pj-prompt-input';
-    inputEl.value = inputValue;
-    inputEl.setAttribute('autocomplete', 'off');
-    inputEl.setAttribute('spellcheck', 'false');
-    if (opts?.placeholder) inputEl.placeholder = opts.placeholder;
-    if (opts?.maxLength) inputEl.maxLength = opts.maxLength;
-    contentWrapper.appendChild(inputEl);
-
-    errorEl = document.createElement('div');
-    errorEl.className = 'pj-prompt-error';
-    errorEl.setAttribute('role', 'alert');
-    errorEl.setAttribute('aria-live', 'polite');
-    contentWrapper.appendChild(errorEl);
+    const field = createPromptField(message, { ...opts, value: inputValue });
+    const contentWrapper = field.wrapper;
+    const inputEl = field.input;
+    errorEl = field.errorEl;
 
     inputEl.addEventListener('input', (e) => {
       inputValue = (e.target as HTMLInputElement).value;
+      edits++;
       if (errorEl) errorEl.textContent = '';
       inputEl.classList.remove('error');
     });
@@ -178,21 +301,65 @@ export async function prompt(
       // Blur styles handled by CSS
     });
 
+    const showError = (error: string) => {
+      if (errorEl) {
+        errorEl.textContent = error;
+        inputEl.classList.add('error');
+      }
+    };
+
+    // Loading state on OK while async validation / onSubmit is pending
+    const setBusy = (on: boolean) => {
+      busy = on;
+      const okBtn = modal.el?.querySelector('[data-button-id="ok"]') as HTMLButtonElement | null;
+      if (!okBtn) return;
+      okBtn.disabled = on;
+      okBtn.classList.toggle('pj-loading', on);
+      if (on) okBtn.setAttribute('aria-busy', 'true');
+      else okBtn.removeAttribute('aria-busy');
+    };
+
+    const submit = async () => {
+      if (busy) return;
+      const value = inputValue;
+      const version = edits;
+
+      let error = checkTextRules(value, opts ?? {});
+      const validator = opts?.validator;
+      if (!error && validator) {
+        setBusy(true);
+        error = await runAsyncValidator(() => validator(value));
+        setBusy(false);
+        // User typed while validating: this result no longer applies
+        if (version !== edits) return;
+      }
+      if (error) {
+        showError(error);
+        return;
+      }
+
+      if (opts?.onSubmit) {
+        setBusy(true);
+        try {
+          await opts.onSubmit(value);
+        } catch (e) {
+          showError(submitErrorMessage(e));
+          return;
+        } finally {
+          setBusy(false);
+        }
+      }
+
+      // Validation passed, close (resolved in onClose)
+      submittedValue = value;
+      modal.close('ok');
+    };
+
     // Allow Enter to submit (if valid)
     inputEl.addEventListener('keydown', (e) => {
       if (e.key === 'Enter') {
         e.preventDefault();
-        const error = validateInput(inputValue);
-        if (error) {
-          if (errorEl) {
-            errorEl.textContent = error;
-            inputEl.classList.add('error');
-          }
-          return;
-        }
-        // Validation passed, resolve and close
-        safeResolve(inputValue);
-        modal.close('ok');
+        submit();
       }
     });
 
@@ -206,35 +373,28 @@ export async function prompt(
           text: opts?.cancelText ?? config.get().i18n.cancel, 
           variant: 'neutral',
           closeOnClick: true,
-          onClick: () => safeResolve(null)
         },
         { 
           id: 'ok', 
           text: opts?.okText ?? config.get().i18n.ok, 
           variant: 'primary',
-          closeOnClick: false, // Don't auto-close, we'll handle it manually
-          onClick: () => {
-            const error = validateInput(inputValue);
-            if (error) {
-              if (errorEl) {
-                errorEl.textContent = error;
-                inputEl.classList.add('error');
-              }
-              // Don't close modal, just return
-              return;
-            }
-            // Validation passed, resolve and close
-            safeResolve(inputValue);
-            modal.close('ok');
-          }
+          closeOnClick: false, // Don't auto-close, submit() validates first
+          onClick: () => submit(),
         }
       ],
       closeOnEsc: true,
       closeOnBackdrop: false, // Don't lose input on accidental backdrop click
-      onClose: (result) => {
-        if (result === 'esc' || result === 'backdrop' || result === 'close') {
-          safeResolve(null);
+      onClose: (result, dismissal) => {
+        if (dismissal === 'abort') {
+          if (opts?.abortResult !== undefined) safeResolve(opts.abortResult);
+          else if (!resolved) {
+            resolved = true;
+            reject(abortError(opts?.signal));
+          }
+          return;
         }
+        // Only a completed close resolves; beforeClose may have vetoed earlier attempts
+        safeResolve(result === 'ok' ? submittedValue : null);
       },
       onOpen: () => {
         // Auto-focus the input after modal opens
@@ -248,3 +408,634 @@ export async function prompt(
     });
   });
 }
+
+/* ---------------- typeToConfirm(): destructive confirmation ---------------- */
+
+export async function typeToConfirm(
+  message: string,
+  phrase: string,
+  opts?: TypeToConfirmOptions
+): Promise<boolean> {
+  const {
+    confirmText, cancelText, caseInsensitive, instruction, placeholder, abortResult,
+    ...modalOpts
+  } = opts ?? {};
+
+  return new Promise((resolve, reject) => {
+    let confirmBtn: HTMLButtonElement | null = null;
+
+    const field = createPromptField(message, { placeholder });
+    const inputEl = field.input;
+
+    // Instruction: "{phrase}" becomes an emphasized, non-HTML copy of the phrase
+    const hint = document.createElement('p');
+    hint.className = 'pj-prompt-instruction';
+    const template = instruction ?? config.get().i18n.typeToConfirm ?? 'Type {phrase} to confirm.';
+    template.split('{phrase}').forEach((part, i) => {
+      if (i > 0) {
+        const strong = document.createElement('strong');
+        strong.className = 'pj-confirm-phrase';
+        strong.textContent = phrase;
+        hint.appendChild(strong);
+      }
+      hint.appendChild(document.createTextNode(part));
+    });
+    field.wrapper.insertBefore(hint, inputEl);
+    inputEl.id = uid('pj-confirm-input');
+    hint.id = `${inputEl.id}-hint`;
+    inputEl.setAttribute('aria-describedby', hint.id);
+
+    const matches = () =>
+      caseInsensitive
+        ? inputEl.value.toLowerCase() === phrase.toLowerCase()
+        : inputEl.value === phrase;
+
+    inputEl.addEventListener('input', () => {
+      if (confirmBtn) confirmBtn.disabled = !matches();
+    });
+
+    // Enter confirms only once the phrase matches
+    inputEl.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        if (matches()) modal.close('confirm');
+      }
+    });
+
+    const modal = open({
+      ...modalOpts,
+      content: field.wrapper,
+      buttons: [
+        {
+          id: 'cancel',
+          text: cancelText ?? config.get().i18n.cancel,
+          variant: 'neutral',
+          closeOnClick: true,
+        },
+        {
+          id: 'confirm',
+          text: confirmText ?? config.get().i18n.ok,
+          variant: 'danger',
+          closeOnClick: true,
+        },
+      ],
+      closeOnEsc: true,
+      closeOnBackdrop: false,
+      onClose: (result, dismissal) => {
+        if (dismissal === 'abort') {
+          if (abortResult !== undefined) resolve(abortResult);
+          else reject(abortError(opts?.signal));
+          return;
+        }
+        resolve(result === 'confirm');
+      },
+      onOpen: (inst) => {
+        confirmBtn = inst.el.querySelector('[data-button-id="confirm"]');
+        if (confirmBtn) confirmBtn.disabled = !matches();
+        setTimeout(() => inputEl.focus(), 100);
+      },
+    });
+  });
+}
+
+/* ---------------- form(): schema-driven multi-field dialog ---------------- */
+
+type FieldHandle = {
+  field: FormField;
+  read: () => FormValue;
+  focus: () => void;
+  setError: (message: string) => void;
+};
+
+/** Validate one field against its rules; `values` lets validators cross-check. */
+function validateField(
+  field: FormField,
+  value: FormValue,
+  values: Record<string, FormValue>
+): string | null {
+  const type = field.type ?? 'text';
+
+  if (type === 'checkbox') {
+    if (field.required && value !== true) return 'This field is required';
+  } else if (type === 'number') {
+    if (value === null) {
+      if (field.required) return 'This field is required';
+    } else {
+      if (Number.isNaN(value)) return 'Enter a number';
+      if (field.min !== undefined && (value as number) < Number(field.min)) {
+        return `Minimum value is ${field.min}`;
+      }
+      if (field.max !== undefined && (value as number) > Number(field.max)) {
+        return `Maximum value is ${field.max}`;
+      }
+    }
+  } else {
+    const text = value === null ? '' : String(value);
+    const error = checkTextRules(text, field);
+    if (error) return error;
+    // ISO dates (yyyy-mm-dd) compare correctly as strings
+    if (type === 'date' && text) {
+      if (field.min !== undefined && text < String(field.min)) return `Earliest date is ${field.min}`;
+      if (field.max !== undefined && text > String(field.max)) return `Latest date is ${field.max}`;
+    }
+  }
+
+  const validator = field.validator;
+  return validator ? runValidator(() => validator(value, values)) : null;
+}
+
+/** Build the label + control + inline error for one field. */
+function renderField(field: FormField): { row: HTMLElement; handle: FieldHandle } {
+  const type = field.type ?? 'text';
+  const id = uid('pj-field');
+
+  const row = document.createElement('div');
+  row.className = `pj-form-field pj-form-${type}`;
+
+  const errorEl = document.createElement('div');
+  errorEl.className = 'pj-prompt-error';
+  errorEl.id = `${id}-error`;
+  errorEl.setAttribute('role', 'alert');
+  errorEl.setAttribute('aria-live', 'polite');
+
+  let controls: HTMLElement[] = [];
+  let read: () => FormValue;
+
+  if (type === 'checkbox') {
+    const label = document.createElement('label');
+    label.className = 'pj-form-check';
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.id = id;
+    input.checked = field.defaultValue === true;
+    label.appendChild(input);
+    label.appendChild(document.createTextNode(field.label ?? field.name));
+    row.appendChild(label);
+    controls = [input];
+    read = () => input.checked;
+  } else if (type === 'radio') {
+    const group = document.createElement('div');
+    group.className = 'pj-form-group';
+    group.setAttribute('role', 'radiogroup');
+    if (field.label) {
+      const legend = document.createElement('div');
+      legend.className = 'pj-form-label';
+      legend.id = `${id}-label`;
+      legend.textContent = field.label;
+      row.appendChild(legend);
+      group.setAttribute('aria-labelledby', legend.id);
+    }
+    const radios = (field.options ?? []).map((opt, i) => {
+      const label = document.createElement('label');
+      label.className = 'pj-form-check';
+      const input = document.createElement('input');
+      input.type = 'radio';
+      input.name = id;
+      input.id = `${id}-${i}`;
+      input.value = opt.value;
+      input.disabled = !!opt.disabled;
+      input.checked = field.defaultValue === opt.value;
+      label.appendChild(input);
+      label.appendChild(document.createTextNode(opt.label));
+      group.appendChild(label);
+      return input;
+    });
+    row.appendChild(group);
+    controls = radios;
+    read = () => radios.find((r) => r.checked)?.value ?? null;
+  } else {
+    if (field.label) {
+      const label = document.createElement('label');
+      label.className = 'pj-form-label';
+      label.htmlFor = id;
+      label.textContent = field.label;
+      row.appendChild(label);
+    }
+
+    let control: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+    if (type === 'select') {
+      const select = document.createElement('select');
+      if (field.placeholder) {
+        const ph = document.createElement('option');
+        ph.value = '';
+        ph.textContent = field.placeholder;
+        select.appendChild(ph);
+      }
+      for (const opt of field.options ?? []) {
+        const o = document.createElement('option');
+        o.value = opt.value;
+        o.textContent = opt.label;
+        o.disabled = !!opt.disabled;
+        select.appendChild(o);
+      }
+      control = select;
+    } else if (type === 'textarea') {
+      const textarea = document.createElement('textarea');
+      textarea.rows = field.rows ?? 3;
+      control = textarea;
+    } else {
+      const input = document.createElement('input');
+      input.type = type;
+      input.setAttribute('autocomplete', 'off');
+      if (field.min !== undefined) input.min = String(field.min);
+      if (field.max !== undefined) input.max = String(field.max);
+      control = input;
+    }
+
+    control.id = id;
+    control.className = 'pj-prompt-input';
+    if (field.placeholder && !(control instanceof HTMLSelectElement)) {
+      control.placeholder = field.placeholder;
+    }
+    if (field.maxLength && !(control instanceof HTMLSelectElement)) {
+      control.maxLength = field.maxLength;
+    }
+    if (field.defaultValue !== undefined && field.defaultValue !== null) {
+      control.value = String(field.defaultValue);
+    }
+    row.appendChild(control);
+    controls = [control];
+    read = type === 'number'
+      ? () => (control.value.trim() === '' ? null : Number(control.value))
+      : () => control.value;
+  }
+
+  row.appendChild(errorEl);
+
+  for (const c of controls) {
+    c.setAttribute('aria-describedby', errorEl.id);
+    if (field.required) c.setAttribute('aria-required', 'true');
+    c.addEventListener(type === 'checkbox' || type === 'radio' || type === 'select' ? 'change' : 'input', () => {
+      errorEl.textContent = '';
+      c.classList.remove('error');
+      c.removeAttribute('aria-invalid');
+    });
+  }
+
+  const handle: FieldHandle = {
+    field,
+    read,
+    focus: () => (controls.find((c) => !(c as HTMLInputElement).disabled) ?? controls[0])?.focus(),
+    setError: (message) => {
+      errorEl.textContent = message;
+      for (const c of controls) {
+        c.classList.add('error');
+        c.setAttribute('aria-invalid', 'true');
+      }
+    },
+  };
+  return { row, handle };
+}
+
+export async function form<T extends Record<string, FormValue> = Record<string, FormValue>>(
+  opts: FormOptions
+): Promise<T | null> {
+  const { message, fields, okText, cancelText, abortResult, ...modalOpts } = opts;
+
+  // Validation
+  if (!fields || fields.length === 0) {
+    throw new Error('[PromptJS] form() requires at least one field');
+  }
+
+  return new Promise((resolve, reject) => {
+    let values: Record<string, FormValue> | null = null;
+
+    const contentWrapper = document.createElement('div');
+    contentWrapper.className = 'pj-prompt-wrapper pj-form';
+
+    if (message) {
+      const messageP = document.createElement('p');
+      messageP.className = 'pj-prompt-message';
+      messageP.textContent = message;
+      contentWrapper.appendChild(messageP);
+    }
+
+    const handles = fields.map((field) => {
+      const { row, handle } = renderField(field);
+      contentWrapper.appendChild(row);
+      return handle;
+    });
+
+    const readAll = () => {
+      const out: Record<string, FormValue> = {};
+      for (const h of handles) out[h.field.name] = h.read();
+      return out;
+    };
+
+    const submit = () => {
+      const current = readAll();
+      let firstInvalid: FieldHandle | null = null;
+      for (const h of handles) {
+        const error = validateField(h.field, current[h.field.name], current);
+        if (error) {
+          h.setError(error);
+          firstInvalid = firstInvalid ?? h;
+        }
+      }
+      if (firstInvalid) {
+        firstInvalid.focus();
+        return;
+      }
+      // Validation passed, close (resolved in onClose)
+      values = current;
+      modal.close('ok');
+    };
+
+    // Allow Enter to submit from single-line controls (textarea keeps newlines)
+    contentWrapper.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !(e.target instanceof HTMLTextAreaElement)) {
+        e.preventDefault();
+        submit();
+      }
+    });
+
+    const modal = open({
+      ...modalOpts,
+      content: contentWrapper,
+      buttons: [
+        {
+          id: 'cancel',
+          text: cancelText ?? config.get().i18n.cancel,
+          variant: 'neutral',
+          closeOnClick: true,
+        },
+        {
+          id: 'ok',
+          text: okText ?? config.get().i18n.ok,
+          variant: 'primary',
+          closeOnClick: false, // Don't auto-close, submit() validates first
+          onClick: () => submit(),
+        },
+      ],
+      closeOnEsc: true,
+      closeOnBackdrop: false, // Don't lose input on accidental backdrop click
+      onClose: (result, dismissal) => {
+        if (dismissal === 'abort') {
+          if (abortResult !== undefined) resolve(abortResult as T | null);
+          else reject(abortError(opts.signal));
+          return;
+        }
+        resolve(result === 'ok' && values ? (values as T) : null);
+      },
+      onOpen: () => {
+        // Focus the first field after modal opens
+        setTimeout(() => handles[0].focus(), 100);
+      },
+    });
+  });
+}
+
+/* ---------------- choose(): listbox picker (single or multi) ---------------- */
+
+/**
+ * Pick one item (or several with `multiple`). Like prompt() and form(), and unlike
+ * question(), dismissal always settles: ESC, backdrop, the header X and Cancel
+ * resolve `onDismissal`, or null when it is not set.
+ */
+export function choose(opts: ChooseOptions & { multiple: true }): Promise<string[] | null>;
+export function choose(opts: ChooseOptions): Promise<string | null>;
+export async function choose(opts: ChooseOptions): Promise<string | string[] | null> {
+  const {
+    message, items, multiple = false, selected, filter, emptyText,
+    okText, cancelText, onDismissal, abortResult, ...modalOpts
+  } = opts;
+
+  // Validation
+  if (!items || items.length === 0) {
+    throw new Error('[PromptJS] choose() requires at least one item');
+  }
+
+  return new Promise((resolve, reject) => {
+    const chosen = new Set<string>(
+      selected === undefined ? [] : ([] as string[]).concat(selected)
+    );
+    if (!multiple && chosen.size > 1) {
+      const first = chosen.values().next().value as string;
+      chosen.clear();
+      chosen.add(first);
+    }
+    let active: HTMLElement | null = null;
+    let okBtn: HTMLButtonElement | null = null;
+
+    const contentWrapper = document.createElement('div');
+    contentWrapper.className = 'pj-prompt-wrapper pj-choose';
+
+    if (message) {
+      const messageP = document.createElement('p');
+      messageP.className = 'pj-prompt-message';
+      messageP.textContent = message;
+      contentWrapper.appendChild(messageP);
+    }
+
+    const list = document.createElement('div');
+    list.className = `pj-choice-list ${multiple ? 'pj-multiple' : 'pj-single'}`;
+    list.id = uid('pj-choices');
+    list.tabIndex = 0;
+    list.setAttribute('role', 'listbox');
+    if (multiple) list.setAttribute('aria-multiselectable', 'true');
+    const listLabel = modalOpts.ariaLabel ?? message ?? opts.title;
+    if (listLabel) list.setAttribute('aria-label', listLabel);
+
+    let filterEl: HTMLInputElement | null = null;
+    if (filter) {
+      filterEl = document.createElement('input');
+      filterEl.type = 'search';
+      filterEl.className = 'pj-prompt-input pj-choose-filter';
+      filterEl.setAttribute('autocomplete', 'off');
+      filterEl.setAttribute('spellcheck', 'false');
+      filterEl.setAttribute('aria-controls', list.id);
+      if (typeof filter === 'object' && filter.placeholder) {
+        filterEl.placeholder = filter.placeholder;
+      }
+      contentWrapper.appendChild(filterEl);
+    }
+
+    const rows: HTMLElement[] = items.map((item) => {
+      const row = document.createElement('div');
+      row.className = 'pj-choice';
+      row.id = uid('pj-choice');
+      row.setAttribute('role', 'option');
+      row.dataset.id = item.id;
+      if (item.disabled) {
+        row.classList.add('is-disabled');
+        row.setAttribute('aria-disabled', 'true');
+      }
+
+      const mark = document.createElement('span');
+      mark.className = 'pj-choice-mark';
+      mark.setAttribute('aria-hidden', 'true');
+      row.appendChild(mark);
+
+      const text = document.createElement('span');
+      text.className = 'pj-choice-text';
+      const label = document.createElement('span');
+      label.className = 'pj-choice-label';
+      label.textContent = item.label;
+      text.appendChild(label);
+      if (item.description) {
+        const desc = document.createElement('span');
+        desc.className = 'pj-choice-desc';
+        desc.textContent = item.description;
+        text.appendChild(desc);
+      }
+      row.appendChild(text);
+
+      row.addEventListener('click', () => {
+        if (item.disabled) return;
+        setActive(row);
+        toggle(item.id);
+        list.focus();
+      });
+      list.appendChild(row);
+      return row;
+    });
+
+    const empty = document.createElement('div');
+    empty.className = 'pj-choice-empty';
+    empty.textContent = emptyText ?? 'No matches';
+    empty.hidden = true;
+    list.appendChild(empty);
+    contentWrapper.appendChild(list);
+
+    /** Rows the keyboard can land on: visible and enabled. */
+    const navigable = () =>
+      rows.filter((r) => !r.hidden && r.getAttribute('aria-disabled') !== 'true');
+
+    const setActive = (row: HTMLElement | null) => {
+      active?.classList.remove('is-active');
+      active = row;
+      if (row) {
+        row.classList.add('is-active');
+        list.setAttribute('aria-activedescendant', row.id);
+        row.scrollIntoView?.({ block: 'nearest' });
+      } else {
+        list.removeAttribute('aria-activedescendant');
+      }
+    };
+
+    const move = (to: 'next' | 'prev' | 'first' | 'last') => {
+      const nav = navigable();
+      if (!nav.length) return;
+      const i = active ? nav.indexOf(active) : -1;
+      const next =
+        to === 'first' ? 0 :
+        to === 'last' ? nav.length - 1 :
+        to === 'next' ? Math.min(nav.length - 1, i + 1) :
+        Math.max(0, i - 1);
+      setActive(nav[next]);
+    };
+
+    // Reflect selection into ARIA/classes and gate OK (single mode needs a pick)
+    const sync = () => {
+      for (const row of rows) {
+        const on = chosen.has(row.dataset.id!);
+        row.classList.toggle('is-selected', on);
+        row.setAttribute('aria-selected', String(on));
+      }
+      if (okBtn) okBtn.disabled = !multiple && chosen.size === 0;
+    };
+
+    const toggle = (id: string) => {
+      if (multiple) {
+        if (chosen.has(id)) chosen.delete(id); else chosen.add(id);
+      } else {
+        chosen.clear();
+        chosen.add(id);
+      }
+      sync();
+    };
+
+    const applyFilter = () => {
+      const q = (filterEl?.value ?? '').trim().toLowerCase();
+      items.forEach((item, i) => {
+        const hay = `${item.label} ${item.description ?? ''}`.toLowerCase();
+        rows[i].hidden = !!q && !hay.includes(q);
+      });
+      empty.hidden = rows.some((r) => !r.hidden);
+      if (!active || active.hidden) setActive(navigable()[0] ?? null);
+    };
+
+    const submit = () => {
+      if (!multiple && chosen.size === 0) return;
+      modal.close('ok');
+    };
+
+    list.addEventListener('keydown', (e) => {
+      switch (e.key) {
+        case 'ArrowDown': e.preventDefault(); move('next'); break;
+        case 'ArrowUp':   e.preventDefault(); move('prev'); break;
+        case 'Home':      e.preventDefault(); move('first'); break;
+        case 'End':       e.preventDefault(); move('last'); break;
+        case ' ':
+          e.preventDefault();
+          if (active) toggle(active.dataset.id!);
+          break;
+        case 'Enter':
+          e.preventDefault();
+          // Single: Enter picks the active row and confirms in one step
+          if (!multiple && active) toggle(active.dataset.id!);
+          submit();
+          break;
+      }
+    });
+
+    if (filterEl) {
+      filterEl.addEventListener('input', applyFilter);
+      filterEl.addEventListener('keydown', (e) => {
+        if (e.key === 'ArrowDown') {
+          e.preventDefault();
+          list.focus();
+          if (!active) move('first');
+        } else if (e.key === 'Enter') {
+          e.preventDefault();
+          submit();
+        }
+      });
+    }
+
+    const result = (): string | string[] =>
+      multiple
+        ? items.filter((i) => chosen.has(i.id)).map((i) => i.id)
+        : (chosen.values().next().value as string);
+
+    const modal = open({
+      ...modalOpts,
+      content: contentWrapper,
+      buttons: [
+        {
+          id: 'cancel',
+          text: cancelText ?? config.get().i18n.cancel,
+          variant: 'neutral',
+          closeOnClick: true,
+        },
+        {
+          id: 'ok',
+          text: okText ?? config.get().i18n.ok,
+          variant: 'primary',
+          closeOnClick: false, // Don't auto-close, submit() checks the selection
+          onClick: () => submit(),
+        },
+      ],
+      onClose: (r, dismissal) => {
+        if (r === 'ok') {
+          resolve(result());
+          return;
+        }
+        if (dismissal === 'abort') {
+          if (abortResult !== undefined) resolve(abortResult);
+          else reject(abortError(opts.signal));
+          return;
+        }
+        // ESC, backdrop, close button or Cancel
+        resolve(onDismissal ?? null);
+      },
+      onOpen: (inst) => {
+        okBtn = inst.el.querySelector('[data-button-id="ok"]');
+        sync();
+        // Start on the first selected row (or the first enabled one)
+        setActive(rows.find((r) => chosen.has(r.dataset.id!) && !r.hidden) ?? navigable()[0] ?? null);
+        setTimeout(() => (filterEl ?? list).focus(), 100);
+      },
+    });
+  });
+}
@@ -0,0 +1,286 @@
+/**
+ * PromptJS – history.ts
+ * Opt-in toast history ("notification center"): a headless store plus a drawer UI.
+ * Author: Iftekhar Mahmud Towhid (tlabs.im@gmail.com)
+ *
+ * Exposed as toast.history:
+ *   - list(filter?): past notifications (sanitized HTML), newest first
+ *   - subscribe(fn): called with the list on every change (returns unsubscribe)
+ *   - unreadCount(), markRead(id?), clear()
+ *   - open(): drawer built on Modal.bare with unread counts, mark-read, clear-all and kind filter
+ *
+ * Recording is off unless config.toast.history.enable (or ToastOptions.history) is true.
+ */
+
+import { config } from "./config";
+import { bare } from "./modal";
+import { sanitize } from "./sanitize";
+import { createNanoEvents, uid } from "./utils";
+import type {
+  ModalInstance,
+  NotifyKind,
+  ToastHistoryEntry,
+  ToastHistoryFilter,
+  ToastOptions,
+} from "./types";
+
+const KINDS = ["info", "success", "warning", "error", "question"] as const;
+
+// Newest first
+let entries: ToastHistoryEntry[] = [];
+const events = createNanoEvents();
+
+/**
+ * Entries store sanitized HTML, so headless consumers of list() get the same
+ * safe markup the drawer shows; Node content is kept as its (escaped) text.
+ */
+function asHTML(content: string | Node): string;
+function asHTML(content: string | Node | undefined): string | undefined;
+function asHTML(content: string | Node | undefined): string | undefined {
+  if (content === undefined) return content;
+  if (typeof content === "string") return sanitize(content);
+  const span = document.createElement("span");
+  span.textContent = content.textContent ?? "";
+  return span.innerHTML;
+}
+
+function emit() {
+  events.emit("change", list());
+}
+
+/* ---------------- Internal: used by toast.ts ---------------- */
+
+/** Whether a toast with these options should be recorded. */
+export function shouldRecord(opts: ToastOptions): boolean {
+  return opts.history ?? config.get().toast.history.enable;
+}
+
+/** Record a toast; returns the entry id. */
+export function record(opts: ToastOptions): string {
+  const entry: ToastHistoryEntry = {
+    id: uid("pj-notif"),
+    kind: opts.kind || "neutral",
+    title: asHTML(opts.title),
+    message: asHTML(opts.message),
+    timestamp: Date.now(),
+    read: false,
+  };
+  entries.unshift(entry);
+  const limit = config.get().toast.history.limit;
+  if (limit > 0 && entries.length > limit) entries.length = limit;
+  emit();
+  return entry.id;
+}
+
+/** Refresh an entry after toast.update() (e.g. toast.promise settling). */
+export function patch(id: string, opts: Partial<ToastOptions>) {
+  const e = entries.find((x) => x.id === id);
+  if (!e) return;
+  if (opts.kind) e.kind = opts.kind;
+  if ("title" in opts) e.title = asHTML(opts.title);
+  if (opts.message !== undefined) e.message = asHTML(opts.message);
+  emit();
+}
+
+/** Note how the toast ended: an action id, "timeout" or "dismissed". */
+export function settle(id: string, action: string) {
+  const e = entries.find((x) => x.id === id);
+  if (!e || e.action) return;
+  e.action = action;
+  emit();
+}
+
+/* ---------------- Headless API ---------------- */
+
+/** Past notifications, newest first. */
+export function list(filter: ToastHistoryFilter = {}): ToastHistoryEntry[] {
+  return entries
+    .filter((e) => (filter.kind ? e.kind === filter.kind : true))
+    .filter((e) => (filter.unread ? !e.read : true))
+    .map((e) => ({ ...e }));
+}
+
+/** Listen for changes (new entry, read state, clear). Returns an unsubscribe function. */
+export function subscribe(fn: (entries: ToastHistoryEntry[]) => void): () => void {
+  events.on("change", fn);
+  return () => events.off("change", fn);
+}
+
+export function unreadCount(): number {
+  return entries.filter((e) => !e.read).length;
+}
+
+/** Mark one entry (or all, when `id` is omitted) as read. */
+export function markRead(id?: string) {
+  let changed = false;
+  for (const e of entries) {
+    if ((id === undefined || e.id === id) && !e.read) {
+      e.read = true;
+      changed = true;
+    }
+  }
+  if (changed) emit();
+}
+
+export function clear() {
+  if (!entries.length) return;
+  entries = [];
+  emit();
+}
+
+/* ---------------- Drawer UI ---------------- */
+
+/** Open the notification drawer. Re-renders live while open. */
+export function open(): ModalInstance {
+  const i18n = config.get().i18n;
+  let filter: NotifyKind | undefined;
+
+  const root = document.createElement("div");
+  root.className = "pj-history";
+
+  const render = () => {
+    root.innerHTML = "";
+
+    // Header: title + unread badge + close
+    const head = document.createElement("div");
+    head.className = "pj-history-head";
+    const h = document.createElement("h2");
+    h.className = "pj-history-title";
+    h.textContent = i18n.notifications ?? "Notifications";
+    const unread = unreadCount();
+    if (unread > 0) {
+      const badge = document.createElement("span");
+      badge.className = "pj-history-unread";
+      badge.textContent = String(unread);
+      h.appendChild(badge);
+    }
+    head.appendChild(h);
+    const x = document.createElement("button");
+    x.type = "button";
+    x.className = "pj-history-close";
+    x.setAttribute("aria-label", i18n.close);
+    x.innerHTML =
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" ' +
+      'fill="none" stroke="currentColor" stroke-width="4" aria-hidden="true">' +
+      '<path stroke-linecap="round" stroke-linejoin="round" d="M6 18 18 6M6 6l12 12"/></svg>';
+    x.addEventListener("click", () => drawer.close());
+    head.appendChild(x);
+    root.appendChild(head);
+
+    // Toolbar: kind filter + bulk actions
+    const bar = document.createElement("div");
+    bar.className = "pj-history-toolbar";
+    const filters = document.createElement("div");
+    filters.className = "pj-history-filters";
+    filters.setAttribute("role", "group");
+    const addFilter = (label: string, kind?: NotifyKind) => {
+      const b = document.createElement("button");
+      b.type = "button";
+      b.className = "pj-history-filter" + (kind ? ` pj-${kind}` : "");
+      b.textContent = label;
+      b.setAttribute("aria-pressed", String(filter === kind));
+      b.addEventListener("click", () => {
+        filter = kind;
+        render();
+        // The re-render replaced the buttons: keep keyboard focus on the active filter
+        root.querySelector<HTMLElement>('.pj-history-filter[aria-pressed="true"]')?.focus();
+      });
+      filters.appendChild(b);
+    };
+    addFilter(i18n.all ?? "All");
+    KINDS.forEach((k) => addFilter(i18n.titles[k], k));
+    addFilter(i18n.general ?? "General", "neutral");
+    bar.appendChild(filters);
+
+    const bulk = document.createElement("div");
+    bulk.className = "pj-history-bulk";
+    const markAll = document.createElement("button");
+    markAll.type = "button";
+    markAll.className = "pj-modal-btn";
+    markAll.textContent = i18n.markAllRead ?? "Mark all read";
+    markAll.disabled = unread === 0;
+    markAll.addEventListener("click", () => markRead());
+    const clearAll = document.createElement("button");
+    clearAll.type = "button";
+    clearAll.className = "pj-modal-btn";
+    clearAll.textContent = i18n.clearAll ?? "Clear all";
+    clearAll.disabled = entries.length === 0;
+    clearAll.addEventListener("click", () => clear());
+    bulk.append(markAll, clearAll);
+    bar.appendChild(bulk);
+    root.appendChild(bar);
+
+    // Entries
+    const items = list({ kind: filter });
+    if (!items.length) {
+      const empty = document.createElement("p");
+      empty.className = "pj-history-empty";
+      empty.textContent = i18n.noNotifications ?? "No notifications";
+      root.appendChild(empty);
+      return;
+    }
+    const ul = document.createElement("ul");
+    ul.className = "pj-history-list";
+    for (const e of items) {
+      const li = document.createElement("li");
+      li.className = `pj-history-item pj-${e.kind}` + (e.read ? "" : " unread");
+
+      const text = document.createElement("div");
+      text.className = "pj-history-text";
+      if (e.title) {
+        const t = document.createElement("div");
+        t.className = "pj-history-item-title";
+        t.innerHTML = sanitize(e.title);
+        text.appendChild(t);
+      }
+      const m = document.createElement("div");
+      m.className = "pj-history-message";
+      m.innerHTML = sanitize(e.message);
+      text.appendChild(m);
+
+      const meta = document.createElement("div");
+      meta.className = "pj-history-meta";
+      const time = document.createElement("time");
+      time.dateTime = new Date(e.timestamp).toISOString();
+      time.textContent = new Date(e.timestamp).toLocaleTimeString(i18n.locale);
+      meta.appendChild(time);
+      if (e.action) meta.appendChild(document.createTextNode(` · ${e.action}`));
+      text.appendChild(meta);
+      li.appendChild(text);
+
+      if (!e.read) {
+        const read = document.createElement("button");
+        read.type = "button";
+        read.className = "pj-modal-btn pj-history-read";
+        read.textContent = i18n.markRead ?? "Mark read";
+        read.addEventListener("click", () => markRead(e.id));
+        li.appendChild(read);
+      }
+      ul.appendChild(li);
+    }
+    root.appendChild(ul);
+  };
+
+  render();
+  const unsubscribe = subscribe(() => {
+    // Keep focus on the same control class after a re-render
+    const active = document.activeElement as HTMLElement | null;
+    const refocus = active && root.contains(active) ? active.className : null;
+    render();
+    if (refocus) {
+      const target =
+        root.querySelector<HTMLElement>(`[class="${refocus}"]:not(:disabled)`) ||
+        root.querySelector<HTMLElement>(".pj-history-close");
+      target?.focus();
+    }
+  });
+
+  const drawer = bare({
+    content: root,
+    surfaceClass: "pj-history-drawer",
+    ariaLabel: i18n.notifications ?? "Notifications",
+    concurrency: "stack",
+    onClose: unsubscribe,
+  });
+  return drawer;
+}
@@ -59,6 +59,20 @@ register({
   no: 'No',
   close: 'Close',
   dismiss: 'Dismiss',
+  typeToConfirm: 'Type {phrase} to confirm.',
+  dontAskAgain: "Don't ask me again",
+  toastGroupSummary: '{count} notifications',
+  showAll: 'Show all',
+  showLess: 'Show less',
+  notifications: 'Notifications',
+  all: 'All',
+  general: 'General',
+  markRead: 'Mark read',
+  markAllRead: 'Mark all read',
+  clearAll: 'Clear all',
+  noNotifications: 'No notifications',
+  progressPercent: '{percent}% complete',
+  undo: 'Undo',
   titles: {
     info: 'Information',
     success: 'Success',
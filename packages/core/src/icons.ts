@@ -0,0 +1,59 @@
+/**
+ * PromptJS – icons.ts
+ * Built-in kind icons (info/success/warning/error/question) for toasts and dialog headers.
+ * Author: Iftekhar Mahmud Towhid (tlabs.im@gmail.com)
+ *
+ * Precedence: per-call `icon` option → config.icons[kind] → built-in SVG.
+ * String icons are trusted markup (typically inline SVG) and are not sanitized.
+ * Icons inherit currentColor and are always aria-hidden.
+ */
+
+import { config } from "./config";
+import type { IconOverride, NotifyKind } from "./types";
+
+type IconKind = Exclude<NotifyKind, "neutral">;
+
+const svg = (paths: string) =>
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" ' +
+  'stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" ' +
+  `aria-hidden="true" focusable="false">${paths}</svg>`;
+
+const DEFAULT_ICONS: Record<IconKind, string> = {
+  info: svg('<circle cx="12" cy="12" r="9"/><path d="M12 11v5M12 8h.01"/>'),
+  success: svg('<circle cx="12" cy="12" r="9"/><path d="m8.5 12.5 2.5 2.5 4.5-5"/>'),
+  warning: svg(
+    '<path d="M10.3 3.9 2.4 17.5a2 2 0 0 0 1.7 3h15.8a2 2 0 0 0 1.7-3L13.7 3.9a2 2 0 0 0-3.4 0Z"/>' +
+      '<path d="M12 9v4M12 17h.01"/>'
+  ),
+  error: svg('<circle cx="12" cy="12" r="9"/><path d="m9 9 6 6M15 9l-6 6"/>'),
+  question: svg(
+    '<circle cx="12" cy="12" r="9"/>' +
+      '<path d="M9.5 9.5a2.5 2.5 0 1 1 3.5 2.3c-.6.3-1 .9-1 1.6v.3M12 17h.01"/>'
+  ),
+};
+
+/**
+ * Build the icon element for a kind, or null when there is nothing to show
+ * (neutral kind without an explicit icon, or `icon: false`).
+ */
+export function renderIcon(kind: NotifyKind | undefined, override?: IconOverride): HTMLElement | null {
+  if (override === false) return null;
+
+  const source =
+    override ??
+    (kind && kind !== "neutral"
+      ? config.get().icons[kind] ?? DEFAULT_ICONS[kind]
+      : undefined);
+  if (!source) return null;
+
+  const wrap = document.createElement("span");
+  wrap.className = "pj-icon";
+  wrap.setAttribute("aria-hidden", "true");
+  if (typeof source === "string") {
+    wrap.innerHTML = source;
+  } else {
+    // Clone so one configured element can decorate many toasts
+    wrap.appendChild(source.cloneNode(true));
+  }
+  return wrap;
+}
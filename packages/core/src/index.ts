@@ -3,7 +3,7 @@
  * Entry point for the public API.
  * Author: Iftekhar Mahmud Towhid (tlabs.im@gmail.com)
  *
- * - ESM: re-exports config, Modal, notify, question, confirm, alert, and types.
+ * - ESM: re-exports config, Modal, notify, question, confirm, alert, prompt, typeToConfirm, form, choose, i18n, remember, announce, and types.
  * - UMD (when bundled): attaches a global `window.PromptJS` for Blade/vanilla usage.
  * - No side effects beyond optional global attach when `window` is present.
  */
@@ -11,8 +11,10 @@
 import { config } from './config';
 import * as Modal from './modal';
 import { toast } from './toast';
-import { question, confirm, alert, prompt } from './dialogs';
+import { question, confirm, alert, prompt, typeToConfirm, form, choose } from './dialogs';
 import * as i18n from './i18n';
+import * as remember from './remember';
+import { announce } from './a11y';
 
 declare const __PROMPTJS_VERSION__: string | undefined;
 
@@ -21,20 +23,43 @@ export const version =
     ? __PROMPTJS_VERSION__
     : 'dev';
 
-export { config, Modal, toast, question, confirm, alert, prompt, i18n };
+export { config, Modal, toast, question, confirm, alert, prompt, typeToConfirm, form, choose, i18n, remember, announce };
 export type { 
   ModalOptions, 
   ModalInstance,
+  ModalResult,
+  ModalDismissReason,
   AlertOptions,
   ConfirmOptions,
   PromptOptions,
   QuestionOptions,
-  ToastOptions
+  TypeToConfirmOptions,
+  FormOptions,
+  FormField,
+  FormFieldType,
+  FormFieldOption,
+  FormValue,
+  ChooseOptions,
+  ChoiceItem,
+  ToastOptions,
+  ToastHandle,
+  ToastInfo,
+  ToastPlacement,
+  ToastAnnounce,
+  IconOverride,
+  ToastPromiseOptions,
+  ToastPromiseState,
+  ToastProgressOptions,
+  ToastProgressHandle,
+  ToastUndoOptions,
+  ToastHistoryEntry,
+  ToastHistoryFilter,
+  DecisionStore
 } from "./types";
 
 declare global { interface Window { PromptJS?: any } }
 
 if (typeof window !== 'undefined') {
-  const api = { config, Modal, toast, question, confirm, alert, prompt, i18n, version } as const;
+  const api = { config, Modal, toast, question, confirm, alert, prompt, typeToConfirm, form, choose, i18n, remember, announce, version } as const;
   window.PromptJS = Object.freeze(api);
 }
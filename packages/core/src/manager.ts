@@ -7,18 +7,24 @@
  *   - Create and maintain root containers:
  *       .pj-portal   (modals/dialog overlays)
  *       .pj-toasts   (overlaying toast layer with per-position slots)
- *   - Enforce modal concurrency (queue or reject new opens)
- *   - Body scroll lock + scrollbar compensation
+ *   - Enforce modal concurrency (queue, reject, or stack new opens)
+ *   - Track the modal layer stack (per-layer z-index, top-layer checks)
+ *   - Body scroll lock (ref-counted across layers) + scrollbar compensation
  *   - Z-index base coordination (toasts sit above overlays)
  *   - Toast slots and per-position behavior/queues
+ *   - Scoped toast slots: inside a host element, or floating next to an anchor
  *
  * No external deps. Works with ES2019 + DOM libs.
  */
 
 import { config } from './config';
-import type { ToastBehavior, ToastPosition } from './types';
+import type { ModalConcurrency, ToastBehavior, ToastPlacement, ToastPosition } from './types';
 
 type Job = () => void;
+type ToastHooks = { onMount?: () => void; onEvict?: () => void };
+/** Where a toast mounts besides its position: next to an anchor, or inside a host element. */
+type ToastScope = { anchor?: HTMLElement; placement?: ToastPlacement; container?: HTMLElement };
+type QueuedToast = { el: HTMLElement; mount: () => void; maxVisible: number };
 
 class Manager {
   portal!: HTMLElement;     // overlay mount (modals/dialogs)
@@ -27,10 +33,16 @@ class Manager {
   // Modal state
   private activeModal = 0;
   private modalQueue: Job[] = [];
+  private layers: HTMLElement[] = [];  // open overlays, bottom → top
+  private scrollLocks = 0;
 
   // Toast state
   private toastSlots = new Map<ToastPosition, HTMLElement>();
-  private toastQueues = new Map<ToastPosition, Array<{ mount: () => void; maxVisible: number }>>();
+  private hostSlots = new WeakMap<HTMLElement, Map<ToastPosition, HTMLElement>>(); // container-scoped slots
+  private anchorSlots = new Map<HTMLElement, { slot: HTMLElement; release: () => void }>();
+  private toastQueues = new Map<HTMLElement, QueuedToast[]>(); // keyed by slot
+  private toastHooks = new WeakMap<HTMLElement, ToastHooks>();
+  private deckSlots = new WeakSet<HTMLElement>(); // slots with deck listeners attached
 
   ensureRoots() {
     const parent = config.get().container ?? document.body;
@@ -65,13 +77,25 @@ class Manager {
       } as CSSStyleDeclaration);
       parent.appendChild(this.toastsRoot);
     }
+
+    // Labelled landmark so screen reader users can find toasts (label hints the hotkey)
+    const { i18n, toast } = config.get();
+    const label = i18n.notifications ?? 'Notifications';
+    this.toastsRoot.setAttribute('role', 'region');
+    this.toastsRoot.setAttribute('aria-label', toast.hotkey ? `${label} (${toast.hotkey})` : label);
   }
 
   // -------- Modal orchestration --------
 
-  open(job: Job) {
+  /**
+   * Run a modal job honoring concurrency. `mode` is the per-modal override;
+   * falls back to config.modal.concurrency.
+   * - queue: wait until every open modal has closed
+   * - reject: throw while another modal is open
+   * - stack: open immediately on top of the current layer
+   */
+  open(job: Job, mode: ModalConcurrency = config.get().modal.concurrency) {
     this.ensureRoots();
-    const mode = config.get().modal.concurrency;
     if (this.activeModal > 0 && mode === 'reject') {
       throw new Error('PromptJS: modal already open');
     }
@@ -85,21 +109,47 @@ class Manager {
 
   onClose() {
     this.activeModal = Math.max(0, this.activeModal - 1);
-    if (this.modalQueue.length) {
+    // Queued modals wait for the whole stack to close, not just the top layer
+    if (this.activeModal === 0 && this.modalQueue.length) {
       const next = this.modalQueue.shift()!;
-      this.open(next);
+      this.open(next, 'queue');
     }
   }
 
+  /** Remove a job that is still waiting in the modal queue. Returns true if it was queued. */
+  dequeue(job: Job): boolean {
+    const i = this.modalQueue.indexOf(job);
+    if (i < 0) return false;
+    this.modalQueue.splice(i, 1);
+    return true;
+  }
+
+  /** Register an overlay as the new top layer. Returns its depth (0 = bottom). */
+  pushLayer(overlay: HTMLElement): number {
+    this.layers.push(overlay);
+    return this.layers.length - 1;
+  }
+
+  popLayer(overlay: HTMLElement) {
+    const i = this.layers.indexOf(overlay);
+    if (i >= 0) this.layers.splice(i, 1);
+  }
+
+  /** True when the overlay is the topmost open layer (owns ESC/focus). */
+  isTopLayer(overlay: HTMLElement): boolean {
+    return this.layers[this.layers.length - 1] === overlay;
+  }
+
   scrollLock(lock: boolean) {
     const body = document.body;
+    this.scrollLocks = Math.max(0, this.scrollLocks + (lock ? 1 : -1));
     if (lock) {
       if (!body.style.getPropertyValue('--pj-scrollbar')) {
         const sbw = window.innerWidth - document.documentElement.clientWidth;
         body.style.setProperty('--pj-scrollbar', `${sbw}px`);
       }
       body.classList.add('pj-lock');
-    } else {
+    } else if (this.scrollLocks === 0) {
       body.classList.remove('pj-lock');
       body.style.removeProperty('--pj-scrollbar');
     }
@@ -107,14 +157,17 @@ class Manager {
 
   // -------- Toast infrastructure --------
 
-  private getToastSlot(pos: ToastPosition): HTMLElement {
+  private getToastSlot(pos: ToastPosition, host?: HTMLElement): HTMLElement {
     this.ensureRoots();
-    const existing = this.toastSlots.get(pos);
-    if (existing) return existing;
+    const slots = host ? this.hostSlots.get(host) ?? new Map<ToastPosition, HTMLElement>() : this.toastSlots;
+    const existing = slots.get(pos);
+    // Host content may have been re-rendered since the slot was created
+    if (existing && existing.isConnected) return existing;
 
     const slot = document.createElement('div');
     slot.className = `pj-toast-slot pj-${pos}`;
-    slot.style.position = 'fixed';
+    slot.dataset.pjPos = pos;
+    slot.style.position = host ? 'absolute' : 'fixed';
     slot.style.display = 'flex';
     slot.style.flexDirection = 'column';
     slot.style.pointerEvents = 'none';
@@ -143,61 +196,299 @@ class Manager {
         slot.style.bottom = bottom; slot.style.right = right; break;
     }
 
+    if (host) {
+      // Inline slots are positioned against the host element
+      slot.classList.add('pj-toast-slot-inline');
+      if (getComputedStyle(host).position === 'static') host.style.position = 'relative';
+      host.appendChild(slot);
+      this.hostSlots.set(host, slots);
+    } else {
+      this.toastsRoot.appendChild(slot);
+    }
+    slots.set(pos, slot);
+    return slot;
+  }
+
+  /**
+   * Floating slot next to an anchor element (one per anchor). It follows the anchor
+   * on scroll/resize and is removed once its last toast leaves.
+   */
+  private getAnchorSlot(anchor: HTMLElement, placement: ToastPlacement): HTMLElement {
+    this.ensureRoots();
+    const existing = this.anchorSlots.get(anchor);
+    if (existing) {
+      existing.slot.dataset.pjPlacement = placement; // newest toast decides
+      return existing.slot;
+    }
+
+    const slot = document.createElement('div');
+    slot.className = 'pj-toast-slot pj-toast-slot-anchored';
+    slot.dataset.pjPlacement = placement;
+    slot.style.position = 'fixed';
+    slot.style.display = 'flex';
+    slot.style.flexDirection = 'column';
+    slot.style.pointerEvents = 'none';
+    slot.style.gap = `${config.get().toast.spacingPx}px`;
     this.toastsRoot.appendChild(slot);
-    this.toastSlots.set(pos, slot);
+
+    // rAF-throttled: scroll fires for every scrollable ancestor (captured)
+    let frame = 0;
+    const schedule = () => {
+      if (frame) return;
+      frame = window.requestAnimationFrame(() => {
+        frame = 0;
+        this.placeAnchorSlot(slot, anchor);
+      });
+    };
+    window.addEventListener('scroll', schedule, { capture: true, passive: true });
+    window.addEventListener('resize', schedule);
+    // Toast content and the anchor itself can change size without a scroll/resize
+    const observer = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(schedule) : null;
+    observer?.observe(slot);
+    observer?.observe(anchor);
+
+    this.anchorSlots.set(anchor, {
+      slot,
+      release: () => {
+        window.cancelAnimationFrame(frame);
+        window.removeEventListener('scroll', schedule, { capture: true });
+        window.removeEventListener('resize', schedule);
+        observer?.disconnect();
+        slot.remove();
+        this.anchorSlots.delete(anchor);
+      },
+    });
     return slot;
   }
 
+  /**
+   * Place an anchored slot on its preferred side, flipping to the opposite side when it
+   * does not fit (and the opposite side has more room), then clamp it into the viewport.
+   * start/end follow the anchor's writing direction.
+   */
+  private placeAnchorSlot(slot: HTMLElement, anchor: HTMLElement) {
+    if (!anchor.isConnected) {
+      slot.style.visibility = 'hidden';
+      return;
+    }
+    slot.style.visibility = '';
+
+    const GAP = 8, EDGE = 8;
+    const r = anchor.getBoundingClientRect();
+    const w = slot.offsetWidth, h = slot.offsetHeight;
+    const vw = window.innerWidth, vh = window.innerHeight;
+    const rtl = getComputedStyle(anchor).direction === 'rtl';
+
+    type Side = 'top' | 'bottom' | 'left' | 'right';
+    const placement = (slot.dataset.pjPlacement || 'top') as ToastPlacement;
+    let side: Side =
+      placement === 'start' ? (rtl ? 'right' : 'left')
+      : placement === 'end' ? (rtl ? 'left' : 'right')
+      : placement;
+    const opposite: Record<Side, Side> = { top: 'bottom', bottom: 'top', left: 'right', right: 'left' };
+    const room: Record<Side, number> = {
+      top: r.top - GAP,
+      bottom: vh - r.bottom - GAP,
+      left: r.left - GAP,
+      right: vw - r.right - GAP,
+    };
+    const needed = side === 'top' || side === 'bottom' ? h : w;
+    if (room[side] < needed && room[opposite[side]] > room[side]) side = opposite[side];
+
+    const clamp = (v: number, size: number, max: number) => Math.max(EDGE, Math.min(v, max - size - EDGE));
+    let x: number, y: number;
+    if (side === 'top' || side === 'bottom') {
+      x = clamp(r.left + r.width / 2 - w / 2, w, vw);
+      y = side === 'top' ? r.top - GAP - h : r.bottom + GAP;
+    } else {
+      x = side === 'left' ? r.left - GAP - w : r.right + GAP;
+      y = clamp(r.top + r.height / 2 - h / 2, h, vh);
+    }
+    slot.style.left = `${x}px`;
+    slot.style.top = `${y}px`;
+    slot.dataset.pjSide = side; // actual side after flipping (for styling)
+  }
+
+  /** Re-run slot layout after its content changed (deck transforms, anchor placement). */
+  private relayoutSlot(slot: HTMLElement) {
+    this.layoutDeck(slot, this.slotPosition(slot));
+    for (const [anchor, entry] of this.anchorSlots) {
+      if (entry.slot === slot) this.placeAnchorSlot(slot, anchor);
+    }
+  }
+
   /**
    * Mount a toast into its position slot honoring behavior.
    * - stack: append; if full, drop oldest to keep UI responsive
    * - queue: enqueue if full; mount when a slot frees
    * - replace: clear slot and show only the new toast
+   * - deck: like stack, but older toasts tuck behind the newest (expands on hover/focus)
+   *
+   * hooks.onMount runs when the element actually enters the slot (later for queued
+   * toasts); hooks.onEvict runs if stack/replace pushes it out of the slot.
+   *
+   * scope.anchor mounts into a floating slot next to that element (placement top by
+   * default); scope.container mounts into a slot inside that element at `pos`.
    */
-  showToast(el: HTMLElement, pos: ToastPosition, behavior: ToastBehavior, maxVisible: number) {
-    const slot = this.getToastSlot(pos);
+  showToast(
+    el: HTMLElement,
+    pos: ToastPosition,
+    behavior: ToastBehavior,
+    maxVisible: number,
+    hooks: ToastHooks = {},
+    scope: ToastScope = {}
+  ) {
+    const slot = scope.anchor
+      ? this.getAnchorSlot(scope.anchor, scope.placement ?? 'top')
+      : this.getToastSlot(pos, scope.container);
     const visible = slot.children.length;
 
     // Allow interactions inside toast
     el.style.pointerEvents = 'auto';
+    this.toastHooks.set(el, hooks);
 
-    if (behavior === 'replace') {
-      while (slot.firstElementChild) slot.removeChild(slot.firstElementChild);
+    const mount = () => {
+      this.setDeck(slot, this.slotPosition(slot), behavior === 'deck');
       slot.appendChild(el);
+      this.relayoutSlot(slot);
+      hooks.onMount?.();
+    };
+
+    if (behavior === 'replace') {
+      while (slot.firstElementChild) this.evictToast(slot.firstElementChild);
+      mount();
       return;
     }
 
-    if (behavior === 'stack') {
-      if (visible >= maxVisible) {
-        slot.firstElementChild?.remove();
+    if (behavior === 'stack' || behavior === 'deck') {
+      if (visible >= maxVisible && slot.firstElementChild) {
+        this.evictToast(slot.firstElementChild);
       }
-      slot.appendChild(el);
+      mount();
       return;
     }
 
     // queue
     if (visible >= maxVisible) {
-      const q = this.toastQueues.get(pos) || [];
-      q.push({ mount: () => slot.appendChild(el), maxVisible });
-      this.toastQueues.set(pos, q);
+      const q = this.toastQueues.get(slot) || [];
+      q.push({ el, mount, maxVisible });
+      this.toastQueues.set(slot, q);
     } else {
-      slot.appendChild(el);
+      mount();
+    }
+  }
+
+  /** Remove a mounted toast without its exit animation (stack overflow / replace). */
+  private evictToast(el: Element) {
+    const slot = el.parentElement;
+    el.remove();
+    if (slot) this.relayoutSlot(slot);
+    const hooks = this.toastHooks.get(el as HTMLElement);
+    this.toastHooks.delete(el as HTMLElement);
+    hooks?.onEvict?.();
+  }
+
+  /** Drop a toast that is still waiting in a slot queue. Returns true if it was queued. */
+  removeQueuedToast(el: HTMLElement): boolean {
+    for (const [slot, q] of this.toastQueues) {
+      const i = q.findIndex((entry) => entry.el === el);
+      if (i < 0) continue;
+      q.splice(i, 1);
+      this.toastHooks.delete(el);
+      if (!q.length) this.toastQueues.delete(slot);
+      return true;
     }
+    return false;
   }
 
   /**
-   * Notify manager that a toast at a position was removed.
-   * Used to advance queued toasts for that position.
+   * Notify manager that a toast was removed from a slot.
+   * Used to advance queued toasts for that slot (and to drop emptied anchor slots).
    */
-  onToastRemoved(pos: ToastPosition) {
-    const slot = this.getToastSlot(pos);
-    const q = this.toastQueues.get(pos);
-    if (!q || q.length === 0) return;
-
-    if (slot.children.length < q[0].maxVisible) {
+  onToastRemoved(slot: HTMLElement) {
+    this.relayoutSlot(slot);
+    const q = this.toastQueues.get(slot);
+    if (q && q.length && slot.children.length < q[0].maxVisible) {
       const next = q.shift()!;
+      if (!q.length) this.toastQueues.delete(slot);
       next.mount();
     }
+    if (slot.children.length || this.toastQueues.has(slot)) return;
+    for (const entry of this.anchorSlots.values()) {
+      if (entry.slot === slot) entry.release();
+    }
+  }
+
+  // -------- Deck layout (behavior: 'deck') --------
+  // Items share one grid cell; their place in the deck is a transform, so CSS
+  // transitions animate every reflow (add, remove, expand) from old to new position.
+
+  private slotPosition(slot: HTMLElement): ToastPosition {
+    return (slot.dataset.pjPos as ToastPosition) || config.get().toast.defaultPosition;
+  }
+
+  /** Switch a slot between deck (grid, overlapping) and the regular flex column. */
+  private setDeck(slot: HTMLElement, pos: ToastPosition, on: boolean) {
+    if (slot.classList.contains('pj-deck') === on) return;
+    slot.classList.toggle('pj-deck', on);
+    slot.style.display = on ? 'grid' : 'flex';
+    if (!on) {
+      slot.classList.remove('pj-deck-expanded');
+      Array.from(slot.children).forEach((c) => {
+        const item = c as HTMLElement;
+        item.style.transform = item.style.zIndex = item.style.maxHeight = item.style.opacity = '';
+      });
+      return;
+    }
+    if (this.deckSlots.has(slot)) return;
+    this.deckSlots.add(slot);
+
+    // Expand on hover/focus; collapse after a short grace period so gaps between items don't flicker
+    let collapseTimer: number | undefined;
+    const expand = (open: boolean) => {
+      window.clearTimeout(collapseTimer);
+      const apply = () => {
+        if (!slot.classList.contains('pj-deck')) return;
+        slot.classList.toggle('pj-deck-expanded', open);
+        this.layoutDeck(slot, pos);
+      };
+      if (open) apply();
+      else collapseTimer = window.setTimeout(apply, 150);
+    };
+    const leaving = (e: MouseEvent | FocusEvent) => !slot.contains(e.relatedTarget as Node | null);
+    slot.addEventListener('mouseover', () => expand(true));
+    slot.addEventListener('mouseout', (e) => { if (leaving(e) && !slot.contains(document.activeElement)) expand(false); });
+    slot.addEventListener('focusin', () => expand(true));
+    slot.addEventListener('focusout', (e) => { if (leaving(e)) expand(false); });
+  }
+
+  /** Position deck items: newest in front at the edge, older ones peeking behind (or listed when expanded). */
+  private layoutDeck(slot: HTMLElement, pos: ToastPosition) {
+    if (!slot.classList.contains('pj-deck')) return;
+    if (!slot.children.length) { this.setDeck(slot, pos, false); return; }
+
+    const items = (Array.from(slot.children) as HTMLElement[]).reverse(); // newest first
+    const expanded = slot.classList.contains('pj-deck-expanded');
+    const dir = pos.startsWith('top') ? 1 : -1; // older toasts sit away from the edge
+    const { spacingPx } = config.get().toast;
+    const frontH = items[0].offsetHeight;
+    const PEEK = 10, MAX_LAYERS = 3;
+
+    let offset = 0;
+    items.forEach((item, i) => {
+      item.style.zIndex = String(items.length - i);
+      if (expanded) {
+        item.style.transform = `translateY(${dir * offset}px)`;
+        item.style.maxHeight = item.style.opacity = '';
+        offset += item.offsetHeight + spacingPx;
+      } else {
+        const depth = Math.min(i, MAX_LAYERS);
+        item.style.transform = `translateY(${dir * depth * PEEK}px) scale(${1 - depth * 0.05})`;
+        // Older toasts take the front toast's height so only their edge peeks out
+        item.style.maxHeight = i === 0 || !frontH ? '' : `${frontH}px`;
+        item.style.opacity = i < MAX_LAYERS ? '' : '0';
+      }
+    });
   }
 }
 
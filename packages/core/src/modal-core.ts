@@ -10,6 +10,8 @@ import { manager } from "./manager";
 import { trapFocus, ariaHideSiblings } from "./a11y";
 import type {
   ModalInstance,
+  ModalResult,
+  ModalDismissReason,
   ModalDraggable,
   ModalConcurrency,
   NotifyKind,
@@ -148,7 +150,12 @@ export type CoreBehavior = {
   ariaLabel?: string;
   draggable?: ModalDraggable;
   onOpen?: (inst: ModalInstance) => void;
-  onClose?: (result?: unknown) => void;
+  onClose?: (result?: unknown, dismissal?: ModalDismissReason) => void;
+  beforeClose?: (
+    reason: unknown,
+    inst: ModalInstance
+  ) => boolean | void | Promise<boolean | void>;
+  signal?: AbortSignal;
   concurrency?: ModalConcurrency;
 };
 
@@ -180,10 +187,30 @@ export type CoreRenderers = {
   ) => void;
 };
 
-export function createSurface(
+// Dismissals travel beside the close value, never inside it: a button id or
+// close(value) that happens to equal "esc"/"close"/… is still a value.
+const dismissers = new WeakMap<ModalInstance<any>, (reason: ModalDismissReason) => void>();
+
+/** Dismiss a modal the way its chrome does (header X, ESC, backdrop). */
+export function dismiss(inst: ModalInstance<any>, reason: ModalDismissReason) {
+  dismissers.get(inst)?.(reason);
+}
+
+/** Map a close onto the public ModalResult union. */
+function toResult<T>(raw: unknown, dismissal?: ModalDismissReason): ModalResult<T> {
+  return dismissal
+    ? { dismissed: true, reason: dismissal }
+    : { dismissed: false, value: raw as T };
+}
+
+function isThenable<T>(value: unknown): value is PromiseLike<T> {
+  return !!value && typeof (value as PromiseLike<T>).then === "function";
+}
+
+export function createSurface<T = unknown>(
   core: CoreOptions,
   r: CoreRenderers
-): ModalInstance {
+): ModalInstance<T> {
   const id = uid("modal");
   const cfg = config.get();
   const animEnabled = core.animate ?? cfg.animation?.enable ?? true;
@@ -203,6 +230,7 @@ export function createSurface(
 
   // lifecycle
   let isClosing = false;
+  let isGuarding = false; // beforeClose promise pending
   let releaseTrap: (() => void) | null = null;
   let restoreAria: (() => void) | null = null;
   let cleanupDrag: (() => void) | null = null;
@@ -210,7 +238,11 @@ export function createSurface(
   // instance handles
   let _el!: HTMLDivElement;
   let _contentEl!: HTMLElement;
-  const instance: ModalInstance = {
+  let settle!: (r: ModalResult<T>) => void;
+  const result = new Promise<ModalResult<T>>((resolve) => {
+    settle = resolve;
+  });
+  const instance: ModalInstance<T> = {
     id,
     close: (result?: unknown) => close(result),
     update: () => {
@@ -222,8 +254,11 @@ export function createSurface(
     get contentEl() {
       return _contentEl;
     },
+    result,
   };
 
+  dismissers.set(instance, (reason) => close(reason, reason));
+
   let onEsc: ((e: KeyboardEvent) => void) | null = null;
 
   const render = () => {
@@ -295,10 +330,20 @@ export function createSurface(
     overlay.appendChild(modal);
     manager.portal.appendChild(overlay);
 
-    // focus trap & aria hide
+    // layer: each stacked modal sits above the previous one
+    const depth = manager.pushLayer(overlay);
+    if (depth > 0) {
+      overlay.style.zIndex = `calc(var(--pj-z-base, 2000) + ${depth * 10})`;
+      overlay.classList.add("pj-overlay-stacked");
+    }
+
+    // focus trap & aria hide (scoped to the top layer)
     const initial = footerEl?.querySelector("button") as HTMLElement | null;
     if (core.trapFocus !== false) {
-      releaseTrap = trapFocus(modal, { initialFocus: initial }).release;
+      releaseTrap = trapFocus(modal, {
+        initialFocus: initial,
+        isActive: () => manager.isTopLayer(overlay),
+      }).release;
     }
     restoreAria = ariaHideSiblings(overlay);
 
@@ -381,25 +426,29 @@ export function createSurface(
   const bind = () => {
     if (core.closeOnBackdrop ?? true) {
       overlay.addEventListener("click", (e) => {
-        if (e.target === overlay) close("backdrop");
+        if (e.target === overlay) close("backdrop", "backdrop");
       });
     }
     if (core.closeOnEsc ?? true) {
       onEsc = (e: KeyboardEvent) => {
-        if (e.key === "Escape") {
+        // Only the top layer reacts; parents stay open under a stacked child
+        // Listener stays bound until teardown: beforeClose may veto this close
+        // Escape inside a focused toast dismisses that toast instead
+        const inToast = (e.target as Element | null)?.closest?.(".pj-toast");
+        if (e.key === "Escape" && manager.isTopLayer(overlay) && !inToast) {
           e.stopPropagation();
-          close("esc");
-          document.removeEventListener("keydown", onEsc as any, true);
+          close("esc", "esc");
         }
       };
       document.addEventListener("keydown", onEsc, true);
     }
   };
 
-  const teardown = (result?: unknown) => {
+  const teardown = (result?: unknown, dismissal?: ModalDismissReason) => {
     overlay.remove();
-    manager.onClose();
-    manager.scrollLock(false);
+    manager.popLayer(overlay);
+    // Release before the manager opens a queued modal, so focus returns to
+    // the parent layer and the next modal captures a clean aria state.
     try {
       releaseTrap?.();
     } catch {}
@@ -413,15 +462,59 @@ export function createSurface(
     try {
       document.removeEventListener("keydown", onEsc as any, true);
     } catch {}
-    core.onClose?.(result);
+    core.signal?.removeEventListener("abort", onAbort);
+    manager.onClose();
+    manager.scrollLock(false);
+    settle(toResult<T>(result, dismissal));
+    core.onClose?.(result, dismissal);
   };
 
-  const close = (result?: unknown) => {
+  /** Ask core.beforeClose (if any) before closing; ignore calls while it's pending. */
+  const close = (result?: unknown, dismissal?: ModalDismissReason) => {
+    if (isClosing || isGuarding) return;
+    if (!overlay) {
+      // Still queued: nothing on screen to guard or animate, just drop the job
+      if (manager.dequeue(job)) abandon(result, dismissal);
+      return;
+    }
+    if (!core.beforeClose) {
+      beginClose(result, dismissal);
+      return;
+    }
+
+    let verdict: boolean | void | Promise<boolean | void>;
+    try {
+      verdict = core.beforeClose(result, instance);
+    } catch (e) {
+      // A broken guard keeps the modal open rather than losing user data
+      console.error("[PromptJS] beforeClose threw:", e);
+      return;
+    }
+
+    if (isThenable<boolean | void>(verdict)) {
+      isGuarding = true;
+      verdict.then(
+        (ok) => {
+          isGuarding = false;
+          if (ok !== false) beginClose(result, dismissal);
+        },
+        (e) => {
+          isGuarding = false;
+          console.error("[PromptJS] beforeClose rejected:", e);
+        }
+      );
+      return;
+    }
+
+    if (verdict !== false) beginClose(result, dismissal);
+  };
+
+  const beginClose = (result?: unknown, dismissal?: ModalDismissReason) => {
     if (isClosing) return;
     isClosing = true;
 
     if (!animEnabled) {
-      teardown(result);
+      teardown(result, dismissal);
       return;
     }
 
@@ -440,7 +533,7 @@ export function createSurface(
     let doneModal = false;
     let doneOverlay = !overlayFade;
     const tryDone = () => {
-      if (doneModal && doneOverlay) teardown(result);
+      if (doneModal && doneOverlay) teardown(result, dismissal);
     };
 
     const onModalEnd = () => {
@@ -462,8 +555,31 @@ export function createSurface(
     window.setTimeout(tryDone, (animDur ?? 0) + 50);
   };
 
-  // Orchestrate via manager (queue/reject handled there already)
-  manager.open(() => render());
+  /** Report a close for a modal that never rendered (closed or aborted before/while queued). */
+  const abandon = (result?: unknown, dismissal?: ModalDismissReason) => {
+    isClosing = true;
+    core.signal?.removeEventListener("abort", onAbort);
+    settle(toResult<T>(result, dismissal));
+    core.onClose?.(result, dismissal);
+  };
+
+  const job = () => render();
+
+  // Abort: force-close a rendered modal, or drop it from the queue
+  const onAbort = () => {
+    if (overlay) beginClose("abort", "abort");
+    else if (manager.dequeue(job)) abandon("abort", "abort");
+  };
+
+  if (core.signal?.aborted) {
+    // Never render; report asynchronously so callers get the instance first
+    Promise.resolve().then(() => abandon("abort", "abort"));
+    return instance;
+  }
+
+  // Orchestrate via manager (queue/reject/stack handled there already)
+  manager.open(job, core.concurrency);
+  core.signal?.addEventListener("abort", onAbort, { once: true });
 
   return instance;
 }
@@ -6,13 +6,13 @@
  * Exposes:
  *   - open(options): standard modal dialog with header, content, footer
  *  - bare(options): bare modal surface with content only
- *  - Both return a ModalInstance with .close(), .contentEl, and .update()
+ *  - Both return a ModalInstance with .close(), .contentEl, .update() and .result
  */
  
 
 
 import { sanitize } from "./sanitize";
-import { createSurface, type CoreOptions } from "./modal-core";
+import { createSurface, dismiss, type CoreOptions } from "./modal-core";
 import type {
   ModalOptions,
   BareModalOptions,
@@ -20,10 +20,15 @@ import type {
   ButtonDef,
 } from "./types";
 import { config } from "./config";
+import { renderIcon } from "./icons";
 
 /* ---------------- Dialogs: Modal.open(...) ---------------- */
 
-export function open(options: ModalOptions): ModalInstance {
+/**
+ * Open a dialog. `T` types the value carried by `inst.result` when the modal
+ * closes with a value (button ids are strings, hence the default).
+ */
+export function open<T = string>(options: ModalOptions): ModalInstance<T> {
   const cfg = config.get();
   const i18n = cfg.i18n;
 
@@ -50,11 +55,13 @@ export function open(options: ModalOptions): ModalInstance {
     draggable: options.draggable,
     onOpen: options.onOpen,
     onClose: options.onClose,
+    beforeClose: options.beforeClose,
+    signal: options.signal,
     concurrency: options.concurrency,
   };
 
   // dialog renderers
-  return createSurface(core, {
+  return createSurface<T>(core, {
     renderHeader(inst, header) {
       const hasTitle =
         typeof options.title === "string" && options.title.length > 0;
@@ -71,6 +78,8 @@ export function open(options: ModalOptions): ModalInstance {
         header.innerHTML = `<h2 class="pj-modal-title">${sanitize(
           computedTitle
         )}</h2>`;
+        const icon = renderIcon(options.kind, options.icon);
+        if (icon) header.firstElementChild!.prepend(icon);
       }
 
       if (options.showClose ?? true) {
@@ -81,7 +90,7 @@ export function open(options: ModalOptions): ModalInstance {
           '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" ' +
           'fill="none" stroke="currentColor" stroke-width="4" aria-hidden="true">' +
           '<path stroke-linecap="round" stroke-linejoin="round" d="M6 18 18 6M6 6l12 12"/></svg>';
-        c.addEventListener("click", () => inst.close("close"));
+        c.addEventListener("click", () => dismiss(inst, "close"));
         header.appendChild(c);
       }
     },
@@ -237,7 +246,9 @@ export function open(options: ModalOptions): ModalInstance {
   });
 }
 
-export function bare(options: BareModalOptions = {}): ModalInstance {
+export function bare<T = unknown>(
+  options: BareModalOptions = {}
+): ModalInstance<T> {
   const windowed = options.windowed !== false;
 
   const core: CoreOptions = {
@@ -276,10 +287,12 @@ export function bare(options: BareModalOptions = {}): ModalInstance {
     })(),
     onOpen: options.onOpen,
     onClose: options.onClose,
+    beforeClose: options.beforeClose,
+    signal: options.signal,
     concurrency: options.concurrency,
   };
 
-  return createSurface(core, {
+  return createSurface<T>(core, {
     // no header/footer by default
     renderBody(_inst, body, setContentEl) {
       if (typeof options.content === "string") {
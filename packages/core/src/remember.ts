@@ -0,0 +1,90 @@
+/**
+ * PromptJS – remember.ts
+ * Persistence for "Don't ask again" decisions made in question()/confirm().
+ * Author: Iftekhar Mahmud Towhid (tlabs.im@gmail.com)
+ *
+ * Exposes:
+ *   - useStore(store): swap the storage adapter (default: localStorage, memory fallback)
+ *   - createLocalStorageStore(prefix?) / createMemoryStore(): built-in adapters
+ *   - get(key), set(key, value): read/write a remembered answer (button id)
+ *   - list(): all remembered decisions; clear(key?): forget one or all
+ */
+
+import type { DecisionStore } from './types';
+
+const DEFAULT_PREFIX = 'pj-remember:';
+
+/** In-memory adapter (tests, SSR, or when persistence is undesired). */
+export function createMemoryStore(): DecisionStore {
+  const map = new Map<string, string>();
+  return {
+    get: (key) => (map.has(key) ? map.get(key)! : null),
+    set: (key, value) => { map.set(key, value); },
+    remove: (key) => { map.delete(key); },
+    keys: () => Array.from(map.keys()),
+  };
+}
+
+/**
+ * localStorage adapter; keys are namespaced with `prefix`.
+ * Falls back to memory when storage is unavailable (SSR, privacy modes).
+ */
+export function createLocalStorageStore(prefix = DEFAULT_PREFIX): DecisionStore {
+  let ls: Storage;
+  try {
+    ls = window.localStorage;
+    const probe = `${prefix}__probe__`;
+    ls.setItem(probe, '1');
+    ls.removeItem(probe);
+  } catch {
+    return createMemoryStore();
+  }
+  return {
+    get: (key) => ls.getItem(prefix + key),
+    set: (key, value) => {
+      try { ls.setItem(prefix + key, value); } catch { /* quota: ignore */ }
+    },
+    remove: (key) => ls.removeItem(prefix + key),
+    keys: () => {
+      const out: string[] = [];
+      for (let i = 0; i < ls.length; i++) {
+        const k = ls.key(i);
+        if (k && k.startsWith(prefix)) out.push(k.slice(prefix.length));
+      }
+      return out;
+    },
+  };
+}
+
+// Created lazily so importing PromptJS never touches storage
+let store: DecisionStore | null = null;
+const current = (): DecisionStore => (store ??= createLocalStorageStore());
+
+/** Replace the storage adapter used for remembered decisions. */
+export function useStore(next: DecisionStore) {
+  store = next;
+}
+
+export function get(key: string): string | null {
+  return current().get(key);
+}
+
+export function set(key: string, value: string) {
+  current().set(key, value);
+}
+
+/** All remembered decisions as { key, value } pairs. */
+export function list(): Array<{ key: string; value: string }> {
+  const s = current();
+  return s.keys().flatMap((key) => {
+    const value = s.get(key);
+    return value === null ? [] : [{ key, value }];
+  });
+}
+
+/** Forget one decision, or all of them when no key is given. */
+export function clear(key?: string) {
+  const s = current();
+  if (key !== undefined) s.remove(key);
+  else s.keys().forEach((k) => s.remove(k));
+}
@@ -0,0 +1,112 @@
+/**
+ * PromptJS – system-notify.ts
+ * Opt-in browser Notification fallback for toasts (ToastOptions.systemNotify).
+ * Author: Iftekhar Mahmud Towhid (tlabs.im@gmail.com)
+ *
+ * - Raised while the tab is hidden (or always, with systemNotify: 'always')
+ * - Same title, message and kind icon as the toast; clicking refocuses the window
+ * - requestPermission(): helper for the (user-gesture) permission prompt
+ *
+ * Degrades silently: unsupported browsers, missing permission and constructors
+ * that throw (e.g. Android Chrome without a service worker) only show the toast.
+ */
+
+import { config } from "./config";
+import { renderIcon } from "./icons";
+import { sanitize } from "./sanitize";
+import type { NotifyKind, ToastOptions } from "./types";
+
+// Used when the theme tokens are not available (icons are images, so currentColor won't do)
+const KIND_COLORS: Partial<Record<NotifyKind, string>> = {
+  info: "#2563eb",
+  success: "#16a34a",
+  warning: "#d97706",
+  error: "#dc2626",
+  question: "#2563eb",
+};
+
+function supported(): boolean {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+/** Plain text of toast content (strings are sanitized HTML). */
+function text(content: string | Node | undefined): string {
+  if (content === undefined) return "";
+  if (typeof content !== "string") return (content.textContent ?? "").trim();
+  const div = document.createElement("div");
+  div.innerHTML = sanitize(content);
+  return (div.textContent ?? "").trim();
+}
+
+/** The toast's kind icon as an image URL: <img> icons keep their src, SVG becomes a data URL. */
+function iconURL(opts: ToastOptions): string | undefined {
+  const icon = renderIcon(opts.kind, opts.icon);
+  if (!icon) return undefined;
+  const img = icon.querySelector("img");
+  if (img) return img.src;
+  const svg = icon.querySelector("svg");
+  if (!svg) return undefined;
+
+  const kind = opts.kind || "neutral";
+  const token = kind === "question" ? "--pj-info" : `--pj-${kind}`;
+  const color =
+    getComputedStyle(document.documentElement).getPropertyValue(token).trim() ||
+    KIND_COLORS[kind] ||
+    "#111827";
+  const markup = svg.outerHTML.replace(/currentColor/g, color);
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+}
+
+/** Whether a toast with these options should raise a system notification right now. */
+export function shouldNotify(opts: ToastOptions): boolean {
+  if (!opts.systemNotify || opts.loading || !supported()) return false;
+  if (Notification.permission !== "granted") return false;
+  return opts.systemNotify === "always" || document.visibilityState === "hidden";
+}
+
+/**
+ * Raise a system notification mirroring the toast. `tag` (toast id / dedupeKey)
+ * lets a repeat replace the previous notification instead of piling up.
+ */
+export function notify(opts: ToastOptions, tag?: string) {
+  const kind = opts.kind || "neutral";
+  const message = text(opts.message);
+  // Notifications need a title: toast title → localized kind title → page title
+  const heading =
+    text(opts.title) ||
+    (kind !== "neutral" ? config.get().i18n.titles[kind] : "") ||
+    document.title;
+  try {
+    const n = new Notification(heading || message, {
+      body: heading ? message : undefined,
+      icon: iconURL(opts),
+      tag,
+    });
+    n.onclick = () => {
+      try {
+        window.focus();
+      } catch {}
+      n.close();
+    };
+  } catch {
+    // Constructor unavailable in this context: the in-page toast is enough
+  }
+}
+
+/**
+ * Ask for notification permission. Call it from a user gesture (click), e.g. an
+ * "Enable desktop notifications" button. Resolves "unsupported" where the API is missing.
+ */
+export function requestPermission(): Promise<NotificationPermission | "unsupported"> {
+  if (!supported()) return Promise.resolve("unsupported");
+  if (Notification.permission !== "default") return Promise.resolve(Notification.permission);
+  return new Promise((resolve) => {
+    try {
+      // Older Safari only supports the callback form
+      const p = Notification.requestPermission(resolve);
+      if (p) p.then(resolve, () => resolve("denied"));
+    } catch {
+      resolve("denied");
+    }
+  });
+}
@@ -10,9 +10,22 @@
 import { manager } from "./manager";
 import { config } from "./config";
 import { sanitize } from "./sanitize";
+import * as history from "./history";
+import * as systemNotify from "./system-notify";
+import { renderIcon } from "./icons";
+import { announce } from "./a11y";
 import type {
+  NotifyKind,
   ToastOptions,
+  ToastHandle,
+  ToastInfo,
+  ToastPromiseOptions,
+  ToastPromiseState,
+  ToastProgressOptions,
+  ToastProgressHandle,
+  ToastUndoOptions,
   ToastPosition,
+  ToastPlacement,
   ToastBehavior,
   ToastAnimations,
   ToastAnimSpec,
@@ -237,10 +250,11 @@ function addTimeoutCue(
 
 function collapseAndRemove(
   container: HTMLElement,
-  position: ToastPosition,
   durationMs: number,
-  easing: string
+  easing: string,
+  onRemoved?: () => void
 ) {
+  const slot = container.parentElement;
   // If animations disabled or reduced motion, just remove container
   if (
     prefersReducedMotion() ||
@@ -248,7 +262,8 @@ function collapseAndRemove(
     !config.get().animation?.enable
   ) {
     container.remove();
-    manager.onToastRemoved(position);
+    if (slot) manager.onToastRemoved(slot);
+    onRemoved?.();
     return;
   }
 
@@ -277,10 +292,14 @@ function collapseAndRemove(
   container.style.paddingBottom = "0px";
   container.style.opacity = "0";
 
+  let removed = false;
   const done = () => {
+    if (removed) return; // transitionend and the safety timer may both fire
+    removed = true;
     container.removeEventListener("transitionend", done);
     container.remove();
-    manager.onToastRemoved(position);
+    if (slot) manager.onToastRemoved(slot);
+    onRemoved?.();
   };
   container.addEventListener("transitionend", done);
   // Safety in case transitionend is swallowed
@@ -295,7 +314,8 @@ function beginExit(
   toastEl: HTMLElement,
   container: HTMLElement,
   position: ToastPosition,
-  userExitSpec?: ToastAnimSpec
+  userExitSpec?: ToastAnimSpec,
+  onRemoved?: () => void
 ) {
   if ((toastEl as any)._pjExiting) return;
   (toastEl as any)._pjExiting = true;
@@ -313,7 +333,7 @@ function beginExit(
 
   if (!animEnabled || prefersReducedMotion() || exitResolved.durationMs <= 0) {
     // No motion: collapse container immediately
-    collapseAndRemove(container, position, 0, exitResolved.easing);
+    collapseAndRemove(container, 0, exitResolved.easing, onRemoved);
     return;
   }
 
@@ -328,26 +348,335 @@ function beginExit(
   onceAnimationEnd(toastEl, exitResolved.durationMs, () => {
     collapseAndRemove(
       container,
-      position,
       exitResolved.durationMs,
-      exitResolved.easing
+      exitResolved.easing,
+      onRemoved
     );
   });
 }
 
 /* ------------------------------------------------------------
-   Public API
+   Swipe / drag to dismiss (pointer events on the container)
 -------------------------------------------------------------*/
 
-export function toast(opts: ToastOptions): { dismiss: () => void } {
+type SwipeDir = "up" | "down" | "left" | "right";
+
+type SwipeResolved = {
+  distancePx: number; // release beyond this distance dismisses
+  velocity: number; // or a flick faster than this (px/ms)
+};
+
+/**
+ * Corners swipe horizontally (either way); centers swipe vertically toward their
+ * edge. Movement against the allowed direction is damped (rubber band), and a
+ * release below the thresholds springs back.
+ */
+function enableSwipe(
+  container: HTMLElement,
+  position: ToastPosition,
+  spec: SwipeResolved,
+  hooks: {
+    canStart: () => boolean;
+    onStart: () => void;
+    onCancel: () => void;
+    onDismiss: (dir: SwipeDir) => void;
+  }
+): () => void {
+  const axis: "x" | "y" = position.endsWith("center") ? "y" : "x";
+  // +1 / -1: the only direction allowed for centers; 0 = both (corners)
+  const allowed =
+    position === "top-center" ? -1 : position === "bottom-center" ? 1 : 0;
+  const SLOP = 6; // px before a press becomes a swipe (keeps clicks working)
+
+  let pointerId: number | null = null;
+  let start = 0;
+  let offset = 0;
+  let swiping = false;
+  let lastPos = 0;
+  let lastTime = 0;
+  let velocity = 0;
+
+  container.style.touchAction = axis === "x" ? "pan-y" : "pan-x";
+
+  const setOffset = (d: number) => {
+    offset = d;
+    const x = axis === "x" ? d : 0;
+    const y = axis === "y" ? d : 0;
+    if ("translate" in (container.style as any))
+      (container.style as any).translate = `${x}px ${y}px`;
+    else container.style.transform = `translate(${x}px, ${y}px)`;
+    container.style.opacity = String(
+      Math.max(0.2, 1 - Math.abs(d) / (spec.distancePx * 2.5))
+    );
+  };
+
+  const coord = (e: PointerEvent) => (axis === "x" ? e.clientX : e.clientY);
+
+  const onDown = (e: PointerEvent) => {
+    if (pointerId !== null || (e.pointerType === "mouse" && e.button !== 0)) return;
+    if (!hooks.canStart()) return;
+    pointerId = e.pointerId;
+    start = lastPos = coord(e);
+    lastTime = e.timeStamp;
+    velocity = 0;
+    swiping = false;
+  };
+
+  const onMove = (e: PointerEvent) => {
+    if (e.pointerId !== pointerId) return;
+    const p = coord(e);
+    const raw = p - start;
+    if (!swiping) {
+      if (Math.abs(raw) < SLOP) return;
+      swiping = true;
+      container.classList.add("pj-swiping");
+      container.style.transition = "none";
+      try {
+        container.setPointerCapture(e.pointerId);
+      } catch {}
+      hooks.onStart();
+    }
+    const dt = e.timeStamp - lastTime;
+    if (dt > 0) velocity = (p - lastPos) / dt;
+    lastPos = p;
+    lastTime = e.timeStamp;
+    const against = allowed !== 0 && Math.sign(raw) !== allowed;
+    setOffset(against ? raw * 0.2 : raw);
+  };
+
+  const onUp = (e: PointerEvent) => {
+    if (e.pointerId !== pointerId) return;
+    pointerId = null;
+    if (!swiping) return;
+    swiping = false;
+    container.classList.remove("pj-swiping");
+
+    const sign = Math.sign(offset) || Math.sign(velocity);
+    const inAllowedDir = allowed === 0 || sign === allowed;
+    const far = Math.abs(offset) >= spec.distancePx;
+    const flick =
+      Math.abs(velocity) >= spec.velocity && Math.sign(velocity) === sign;
+    if (e.type === "pointerup" && inAllowedDir && (far || flick)) {
+      const dir: SwipeDir =
+        axis === "x" ? (sign < 0 ? "left" : "right") : sign < 0 ? "up" : "down";
+      hooks.onDismiss(dir);
+      return;
+    }
+
+    // Spring back
+    const { durationMs, easing } = config.get().animation;
+    container.style.transition = `translate ${durationMs}ms ${easing ?? "ease"}, transform ${durationMs}ms ${easing ?? "ease"}, opacity ${durationMs}ms ${easing ?? "ease"}`;
+    setOffset(0);
+    container.style.opacity = "";
+    hooks.onCancel();
+  };
+
+  container.addEventListener("pointerdown", onDown);
+  container.addEventListener("pointermove", onMove);
+  container.addEventListener("pointerup", onUp);
+  container.addEventListener("pointercancel", onUp);
+
+  return () => {
+    container.removeEventListener("pointerdown", onDown);
+    container.removeEventListener("pointermove", onMove);
+    container.removeEventListener("pointerup", onUp);
+    container.removeEventListener("pointercancel", onUp);
+  };
+}
+
+/* ------------------------------------------------------------
+   Toast instance (internal): render + in-place updates + timer
+-------------------------------------------------------------*/
+
+/** Internal controller: the public handle plus dedupe/group hooks used by toast(). */
+type ToastController = ToastHandle & {
+  /** A repeat of the same dedupeKey: refresh content and timer, bump the ×N badge. */
+  bump: (next: ToastOptions) => void;
+  /** Another toast of the same group: collapse into this one's summary. */
+  addToGroup: (next: ToastOptions) => void;
+  /** Snapshot for toast.getAll(). */
+  info: () => ToastInfo;
+  /** The .pj-toast element (variants like toast.progress add their own parts). */
+  el: HTMLElement;
+};
+
+/** Live toasts, oldest first, and by dedupeKey / group (entries leave as soon as the toast starts exiting). */
+const live = new Set<ToastController>();
+const byDedupeKey = new Map<string, ToastController>();
+const byGroup = new Map<string, ToastController>();
+
+/** Put string (sanitized HTML) or Node content into an element. */
+function fill(target: HTMLElement, content: string | Node) {
+  if (typeof content === "string") target.innerHTML = sanitize(content);
+  else target.appendChild(content);
+}
+
+function cloneIfNode<C extends string | Node>(content: C): C {
+  return (typeof content === "string" ? content : content.cloneNode(true)) as C;
+}
+
+type PauseReason = "hover" | "focus" | "hidden" | "swipe";
+
+const KIND_CLASS = /^pj-(neutral|info|success|warning|error|question)$/;
+
+// Anchored toasts animate and swipe like a centered/corner toast on their side of the anchor
+const ANCHOR_MOTION: Record<ToastPlacement, ToastPosition> = {
+  top: "top-center",
+  bottom: "bottom-center",
+  start: "top-left",
+  end: "top-right",
+};
+// ...and pop in place rather than sliding in from a screen edge
+const ANCHOR_ANIMATIONS: ToastAnimations = {
+  enter: { preset: "scale" },
+  exit: { preset: "fade" },
+};
+
+function isCue(node: Element): boolean {
+  return (
+    node.classList.contains("pj-timeout-bar") ||
+    node.classList.contains("pj-timeout-cover")
+  );
+}
+
+/* ------------------------------------------------------------
+   Keyboard navigation: hotkey → newest toast, arrows, Escape
+-------------------------------------------------------------*/
+
+let returnFocus: HTMLElement | null = null; // where the hotkey was pressed
+let hotkeyBound = false;
+
+/** Does the event match a hotkey like "F6" or "Alt+T"? Modifiers must match exactly. */
+function matchesHotkey(e: KeyboardEvent, hotkey: string): boolean {
+  const parts = hotkey.split("+").map((p) => p.trim().toLowerCase());
+  const key = parts.pop();
+  if (!key) return false;
+  const mods = { alt: e.altKey, ctrl: e.ctrlKey, shift: e.shiftKey, meta: e.metaKey };
+  for (const m of Object.keys(mods) as Array<keyof typeof mods>) {
+    if (mods[m] !== parts.includes(m)) return false;
+  }
+  // Alt/Option rewrites e.key on some layouts (Alt+T → "†"), so letters/digits use e.code
+  if (/^[a-z]$/.test(key)) return e.code === `Key${key.toUpperCase()}`;
+  if (/^[0-9]$/.test(key)) return e.code === `Digit${key}`;
+  return e.key.toLowerCase() === key;
+}
+
+/** Toasts on screen in every slot, newest first. */
+function focusOrder(): ToastController[] {
+  return Array.from(live)
+    .filter((t) => t.isVisible)
+    .reverse();
+}
+
+function focusToast(t: ToastController) {
+  try {
+    t.el.focus({ preventScroll: true } as any);
+  } catch {}
+}
+
+/** Return focus to where it was before the hotkey (if that element is still around). */
+function restoreFocus() {
+  const target = returnFocus;
+  returnFocus = null;
+  if (target && target.isConnected) {
+    try {
+      target.focus({ preventScroll: true } as any);
+    } catch {}
+  }
+}
+
+/** config.toast.hotkey pressed: focus the newest toast, or go back when pressed inside one. */
+function onHotkey(e: KeyboardEvent) {
+  const { hotkey } = config.get().toast;
+  if (!hotkey || !matchesHotkey(e, hotkey)) return;
+  const active = document.activeElement as HTMLElement | null;
+  if (active?.closest(".pj-toast")) {
+    e.preventDefault();
+    restoreFocus();
+    return;
+  }
+  const newest = focusOrder()[0];
+  if (!newest) return;
+  e.preventDefault();
+  returnFocus = active && active !== document.body ? active : null;
+  focusToast(newest);
+}
+
+/** The document listener exists only while a hotkey is configured (off by default). */
+function syncHotkey() {
+  const wanted = !!config.get().toast.hotkey;
+  if (wanted === hotkeyBound) return;
+  hotkeyBound = wanted;
+  if (wanted) document.addEventListener("keydown", onHotkey);
+  else document.removeEventListener("keydown", onHotkey);
+}
+
+let hotkeyWatched = false;
+function watchHotkey() {
+  if (hotkeyWatched) return;
+  hotkeyWatched = true;
+  syncHotkey();
+  config.onChange(() => {
+    syncHotkey();
+    if (manager.toastsRoot) manager.ensureRoots(); // refresh the landmark's hotkey hint
+  });
+}
+
+function createToast(opts: ToastOptions): ToastController {
   manager.ensureRoots();
+  watchHotkey();
 
   const cfg = config.get();
   const pos: ToastPosition = opts.position || cfg.toast.defaultPosition;
   const behavior: ToastBehavior = opts.behavior || cfg.toast.behavior;
   const maxVisible = opts.maxVisible || cfg.toast.maxVisible;
+  const motion: ToastPosition = opts.anchor ? ANCHOR_MOTION[opts.placement || "top"] : pos;
+  const defaultAnims = opts.anchor ? ANCHOR_ANIMATIONS : cfg.toast.animations;
+
+  // Already aborted: never show, but still report the dismissal (after the caller has the handle)
+  if (opts.signal?.aborted) {
+    Promise.resolve().then(() => {
+      try {
+        opts.onDismiss?.();
+      } catch (e) {
+        console.error("[PromptJS] toast onDismiss error:", e);
+      }
+    });
+    return {
+      dismiss: () => {},
+      update: () => {},
+      isVisible: false,
+      bump: () => {},
+      addToGroup: () => {},
+      el: document.createElement("div"),
+      info: () => ({
+        id: opts.id,
+        kind: opts.kind || "neutral",
+        title: opts.title,
+        message: opts.message,
+        position: pos,
+        anchor: opts.anchor,
+        container: opts.container,
+        queued: false,
+      }),
+    };
+  }
 
-  const timeoutMs = opts.timeoutMs ?? cfg.toast.defaultTimeoutMs;
+  let state: ToastOptions = { ...opts };
+  let mounted = false; // in its slot (queued toasts mount later)
+  let ended = false;
+  let count = 1; // dedupe repeats (×N badge)
+  const groupItems: ToastOptions[] = [opts];
+  const repeats: ToastOptions[] = []; // dedupe repeats, kept for their onShow/onDismiss
+  let groupExpanded = false;
+  // toast.history entries for this toast (dedupe repeats / group members add more)
+  const historyIds: string[] = [];
+  const track = (o: ToastOptions) => {
+    if (history.shouldRecord(o)) historyIds.push(history.record(o));
+  };
+  let endAction: string | undefined; // action id or "timeout"; otherwise "dismissed"
+  let customBody: HTMLElement | null = null; // owned by opts.render
+  let disposeRender: (() => void) | undefined;
 
   // ── Container (floats in the slot; collapses after exit) ─────────
   const container = document.createElement("div");
@@ -355,122 +684,754 @@ export function toast(opts: ToastOptions): { dismiss: () => void } {
 
   // Base toast element (animates in/out inside the container)
   const el = document.createElement("div");
-  el.className = `pj-toast pj-${opts.kind || "neutral"} ${
-    opts.dismissible ?? cfg.toast.defaultDismissible ? "dismissible" : ""
-  }`;
-  el.setAttribute("role", "status");
-  el.setAttribute("aria-live", "polite");
-
-  // Title (optional)
-  let contentContainer = el;
-  let titleId: string | undefined;
-  if (opts.title) {
-    const h = document.createElement("div");
-    h.className = "pj-toast-title";
-    h.innerHTML = sanitize(opts.title);
-    titleId = `pj-title-${Math.random().toString(36).slice(2, 9)}`;
-    h.id = titleId;
-    el.appendChild(h);
-    el.classList.add("has-title");
-
-    // Wrap body+actions in a container for layout, body and actions appear side by side
-    contentContainer = document.createElement("div");
-    contentContainer.style.cssText = "display: flex; align-items: center; gap: 6px;";
-    el.appendChild(contentContainer);
-  }
+  el.className = "pj-toast";
+  el.tabIndex = -1; // focus target for the hotkey and arrow navigation
+  // No aria-live on the toast itself: freshly inserted live nodes are often
+  // skipped, so speak() routes the text through the shared live regions instead
 
-  // Content
-  const body = document.createElement("div");
-  body.className = "pj-toast-body";
-  body.innerHTML = sanitize(opts.message);
-  const bodyId = `pj-body-${Math.random().toString(36).slice(2, 9)}`;
-  body.id = bodyId;
-  contentContainer.appendChild(body);
-
-  // ARIA: prefer labelled-by (title) + described-by (body) if available
-  if (titleId) {
-    el.setAttribute("aria-labelledby", titleId);
-    el.setAttribute("aria-describedby", bodyId);
+  // Runs once the toast is gone for good (removed, evicted or dropped from the queue)
+  const finish = () => {
+    if (ended) return;
+    ended = true;
+    forget();
+    historyIds.forEach((id) => history.settle(id, endAction ?? "dismissed"));
+    if (timer) window.clearTimeout(timer);
+    opts.signal?.removeEventListener("abort", onAbort);
+    document.removeEventListener("visibilitychange", onVisibilityChange);
+    releaseSwipe?.();
+    try {
+      disposeRender?.();
+    } catch (e) {
+      console.error("[PromptJS] toast render cleanup error:", e);
+    }
+    // Grouped / deduped toasts leave together; each caller hears about its own toast
+    const callbacks = new Set([
+      state.onDismiss,
+      ...[...groupItems, ...repeats].map((o) => o.onDismiss),
+    ]);
+    callbacks.forEach((cb) => {
+      try {
+        cb?.();
+      } catch (e) {
+        console.error("[PromptJS] toast onDismiss error:", e);
+      }
+    });
+  };
+
+  // Stop receiving dedupe repeats / group members once we start leaving
+  const forget = () => {
+    live.delete(controller);
+    if (state.dedupeKey && byDedupeKey.get(state.dedupeKey) === controller)
+      byDedupeKey.delete(state.dedupeKey);
+    if (state.group && byGroup.get(state.group) === controller)
+      byGroup.delete(state.group);
+  };
+
+  // Unified exit for every dismissal path
+  const exit = () => exitWith(state.animations?.exit ?? (opts.anchor ? ANCHOR_ANIMATIONS.exit : undefined));
+  function exitWith(exitSpec?: ToastAnimSpec) {
+    if (ended) return;
+    // Keyboard users stay in the region: focus moves to a neighbour, or back out
+    if (el.contains(document.activeElement)) {
+      const order = focusOrder();
+      const i = order.indexOf(controller);
+      const next = order[i + 1] ?? order[i - 1];
+      if (next) focusToast(next);
+      else restoreFocus();
+    }
+    forget();
+    if (timer) window.clearTimeout(timer);
+    if (!mounted) {
+      // Still waiting in the position queue: drop it without animating
+      (el as any)._pjExiting = true;
+      manager.removeQueuedToast(container);
+      finish();
+      return;
+    }
+    beginExit(el, container, motion, exitSpec, finish);
   }
 
-  // Actions (optional)
-  if (opts.actions?.length) {
-    const bar = document.createElement("div");
-    bar.className = "pj-toast-actions";
-    for (const a of opts.actions) {
-      const btn = document.createElement("button");
-      btn.className = "pj-toast-btn ghost";
-      btn.textContent = a.text;
-      // Clicking any action also dismisses the toast
-      btn.addEventListener("click", () =>
-        beginExit(el, container, pos, opts.animations?.exit)
-      );
-      btn.addEventListener("click", () => {
+  /** Announce the rendered title and body (polite, or assertive for error/warning). */
+  const speak = () => {
+    const politeness =
+      state.announce ??
+      (state.kind === "error" || state.kind === "warning" ? "assertive" : "polite");
+    if (politeness === "off") return;
+    const text = [".pj-toast-title", ".pj-toast-body"]
+      .map((sel) => el.querySelector(sel)?.textContent?.trim())
+      .filter(Boolean)
+      .join(": ");
+    announce(text, politeness);
+  };
+
+  /** Mirror the toast as a browser Notification when opted in (systemNotify). */
+  const raiseSystemNotify = () => {
+    if (systemNotify.shouldNotify(state)) systemNotify.notify(state, state.id ?? state.dedupeKey);
+  };
+
+  /** (Re)build title, body, actions and dismiss button; keeps any timeout cue. */
+  const render = () => {
+    const dismissible = state.dismissible ?? cfg.toast.defaultDismissible;
+    const grouped = groupItems.length > 1;
+    const title = grouped
+      ? (cfg.i18n.toastGroupSummary ?? "{count} notifications").replace(
+          "{count}",
+          String(groupItems.length)
+        )
+      : state.title;
+    removeMatchingClasses(el, KIND_CLASS);
+    el.classList.add(`pj-${state.kind || "neutral"}`);
+    el.classList.toggle("dismissible", dismissible);
+    el.classList.toggle("has-title", !!title);
+    el.classList.toggle("pj-toast-grouped", grouped);
+    el.classList.toggle("pj-loading", !!state.loading);
+    el.removeAttribute("aria-labelledby");
+    el.removeAttribute("aria-describedby");
+    el.removeAttribute("aria-busy");
+    Array.from(el.children).forEach((child) => {
+      if (!isCue(child)) child.remove();
+    });
+
+    const frag = document.createDocumentFragment();
+
+    // Title (optional)
+    let contentContainer: HTMLElement | DocumentFragment = frag;
+    let titleId: string | undefined;
+    if (title) {
+      const h = document.createElement("div");
+      h.className = "pj-toast-title";
+      fill(h, title);
+      titleId = `pj-title-${Math.random().toString(36).slice(2, 9)}`;
+      h.id = titleId;
+      frag.appendChild(h);
+
+      // Wrap body+actions in a container for layout, body and actions appear side by side
+      contentContainer = document.createElement("div");
+      contentContainer.style.cssText = "display: flex; align-items: center; gap: 6px;";
+      frag.appendChild(contentContainer);
+    }
+
+    // Loading spinner (toast.promise / loading: true) stands in for the kind icon
+    if (state.loading) {
+      const spinner = document.createElement("span");
+      spinner.className = "pj-toast-spinner";
+      spinner.setAttribute("aria-hidden", "true");
+      contentContainer.appendChild(spinner);
+      el.setAttribute("aria-busy", "true");
+    } else {
+      const icon = renderIcon(state.kind, state.icon);
+      if (icon) contentContainer.appendChild(icon);
+    }
+
+    // Content: a custom renderer owns its body for the toast's lifetime (built once)
+    let body: HTMLElement;
+    if (state.render) {
+      if (!customBody) {
+        customBody = document.createElement("div");
+        customBody.className = "pj-toast-body pj-toast-custom";
+        customBody.id = `pj-body-${Math.random().toString(36).slice(2, 9)}`;
         try {
-          a.onClick?.();
-        } catch {}
+          const cleanup = state.render(customBody, controller);
+          if (typeof cleanup === "function") disposeRender = cleanup;
+        } catch (e) {
+          console.error("[PromptJS] toast render error:", e);
+        }
+      }
+      body = customBody;
+    } else {
+      body = document.createElement("div");
+      body.className = "pj-toast-body";
+      fill(body, state.message);
+      body.id = `pj-body-${Math.random().toString(36).slice(2, 9)}`;
+    }
+    const bodyId = body.id;
+    contentContainer.appendChild(body);
+
+    // Repeat counter (dedupeKey)
+    if (count > 1) {
+      const badge = document.createElement("span");
+      badge.className = "pj-toast-count";
+      badge.textContent = `×${count}`;
+      contentContainer.appendChild(badge);
+    }
+
+    // ARIA: prefer labelled-by (title) + described-by (body) if available
+    if (titleId) {
+      el.setAttribute("aria-labelledby", titleId);
+      el.setAttribute("aria-describedby", bodyId);
+    }
+
+    // Actions (optional)
+    if (state.actions?.length) {
+      const bar = document.createElement("div");
+      bar.className = "pj-toast-actions";
+      for (const a of state.actions) {
+        const btn = document.createElement("button");
+        btn.className = "pj-toast-btn ghost";
+        btn.textContent = a.text;
+        // Clicking any action also dismisses the toast (after its handler, so
+        // onDismiss observers can tell an action apart from a plain dismissal)
+        btn.addEventListener("click", () => {
+          if (!endAction) endAction = a.id;
+          try {
+            a.onClick?.();
+          } catch {}
+          exit();
+        });
+        bar.appendChild(btn);
+      }
+      contentContainer.appendChild(bar);
+    }
+
+    // Group summary: expandable list of every collapsed toast
+    if (grouped) {
+      const listId = `pj-group-${Math.random().toString(36).slice(2, 9)}`;
+      const toggle = document.createElement("button");
+      toggle.type = "button";
+      toggle.className = "pj-toast-btn ghost pj-toast-group-toggle";
+      toggle.textContent = groupExpanded
+        ? cfg.i18n.showLess ?? "Show less"
+        : cfg.i18n.showAll ?? "Show all";
+      toggle.setAttribute("aria-expanded", String(groupExpanded));
+      toggle.setAttribute("aria-controls", listId);
+      toggle.addEventListener("click", () => {
+        groupExpanded = !groupExpanded;
+        render();
+        el.querySelector<HTMLElement>(".pj-toast-group-toggle")?.focus();
       });
-      bar.appendChild(btn);
+      frag.appendChild(toggle);
+
+      const list = document.createElement("ul");
+      list.className = "pj-toast-group-list";
+      list.id = listId;
+      list.hidden = !groupExpanded;
+      for (const item of groupItems) {
+        const li = document.createElement("li");
+        li.className = `pj-${item.kind || "neutral"}`;
+        if (item.title) {
+          const strong = document.createElement("strong");
+          fill(strong, cloneIfNode(item.title));
+          li.appendChild(strong);
+          li.appendChild(document.createTextNode(" "));
+        }
+        const msg = document.createElement("span");
+        // Nodes can only live in one place; the latest one is also in the body
+        fill(msg, cloneIfNode(item.message));
+        li.appendChild(msg);
+        list.appendChild(li);
+      }
+      frag.appendChild(list);
+    }
+
+    // Dismiss button
+    if (dismissible) {
+      const x = document.createElement("button");
+      x.className = "pj-toast-close";
+      x.setAttribute("aria-label", cfg.i18n.dismiss);
+      x.innerHTML =
+        '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" ' +
+        'fill="none" stroke="currentColor" stroke-width="4" aria-hidden="true">' +
+        '<path stroke-linecap="round" stroke-linejoin="round" d="M6 18 18 6M6 6l12 12"/></svg>';
+      x.addEventListener("click", exit);
+      frag.appendChild(x);
+    }
+
+    el.insertBefore(frag, el.firstChild);
+  };
+
+  // Timeout auto-dismiss and visual cue; `remaining` survives pauses
+  let timer: number | undefined;
+  let remaining = 0;
+  let deadline = 0;
+  const schedule = () => {
+    deadline = Date.now() + remaining;
+    timer = window.setTimeout(() => {
+      if (!endAction) endAction = "timeout";
+      exit();
+    }, remaining);
+  };
+  const startTimer = () => {
+    if (!mounted) return; // queued toasts start counting once shown
+    if (timer) window.clearTimeout(timer);
+    timer = undefined;
+    remaining = 0;
+    Array.from(el.children).forEach((child) => {
+      // The progress bar is content, not a timeout cue: it survives re-timing
+      if (isCue(child) && !child.classList.contains("pj-progress-bar")) child.remove();
+    });
+    const timeoutMs = state.timeoutMs ?? cfg.toast.defaultTimeoutMs;
+    if (timeoutMs && timeoutMs > 0) {
+      addTimeoutCue(el, state.animations || cfg.toast.animations, timeoutMs);
+      remaining = timeoutMs;
+      if (!pauses.size) schedule();
+    }
+  };
+
+  // Pausing (hover / focus / hidden page / swipe): freezes the timer and the cue animation
+  const pauses = new Set<PauseReason>();
+  const pause = (reason: PauseReason) => {
+    if (ended || pauses.has(reason)) return;
+    pauses.add(reason);
+    el.classList.add("pj-paused");
+    if (timer) {
+      window.clearTimeout(timer);
+      timer = undefined;
+      remaining = Math.max(0, deadline - Date.now());
+    }
+  };
+  const resume = (reason: PauseReason) => {
+    if (!pauses.delete(reason) || pauses.size) return;
+    el.classList.remove("pj-paused");
+    if (!ended && mounted && !(el as any)._pjExiting && remaining > 0) schedule();
+  };
+
+  el.addEventListener("mouseenter", () => {
+    if (state.pauseOnHover ?? cfg.toast.pauseOnHover) pause("hover");
+  });
+  el.addEventListener("mouseleave", () => resume("hover"));
+  el.addEventListener("focusin", () => {
+    if (state.pauseOnFocus ?? cfg.toast.pauseOnFocus) pause("focus");
+  });
+  el.addEventListener("focusout", (e) => {
+    if (!el.contains(e.relatedTarget as Node | null)) resume("focus");
+  });
+  function onVisibilityChange() {
+    if (document.hidden && (state.pauseOnPageHidden ?? cfg.toast.pauseOnPageHidden)) {
+      pause("hidden");
+    } else {
+      resume("hidden");
     }
-    contentContainer.appendChild(bar);
   }
+  document.addEventListener("visibilitychange", onVisibilityChange);
+
+  // Escape and swipes follow the current dismissible option (update() may change it)
+  const isDismissible = () => state.dismissible ?? cfg.toast.defaultDismissible;
+
+  // Arrows move between toasts in every slot; Escape dismisses this one (if dismissible)
+  el.addEventListener("keydown", (e) => {
+    if (e.key === "Escape" && isDismissible()) {
+      e.preventDefault();
+      e.stopPropagation();
+      exit();
+      return;
+    }
+    // Leave arrow keys to form controls inside custom bodies
+    if ((e.target as HTMLElement).closest("input, textarea, select, [contenteditable]")) return;
+    const order = focusOrder();
+    const i = order.indexOf(controller);
+    const next =
+      e.key === "ArrowDown" ? order[i + 1]
+      : e.key === "ArrowUp" ? order[i - 1]
+      : e.key === "Home" ? order[0]
+      : e.key === "End" ? order[order.length - 1]
+      : undefined;
+    if (!next) return;
+    e.preventDefault();
+    focusToast(next);
+  });
 
-  // Dismiss button
-  const dismissible = opts.dismissible ?? cfg.toast.defaultDismissible;
-  if (dismissible) {
-    const x = document.createElement("button");
-    x.className = "pj-toast-close";
-    x.setAttribute("aria-label", cfg.i18n.dismiss);
-    x.innerHTML =
-      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" ' +
-      'fill="none" stroke="currentColor" stroke-width="4" aria-hidden="true">' +
-      '<path stroke-linecap="round" stroke-linejoin="round" d="M6 18 18 6M6 6l12 12"/></svg>';
-    x.addEventListener("click", () =>
-      beginExit(el, container, pos, opts.animations?.exit)
+  // Swipe to dismiss: the exit keeps moving in the swipe direction
+  const swipe = state.swipeToDismiss ?? cfg.toast.swipeToDismiss.enable;
+  let releaseSwipe: (() => void) | undefined;
+  if (swipe) {
+    const s = typeof swipe === "object" ? swipe : {};
+    releaseSwipe = enableSwipe(
+      container,
+      motion,
+      {
+        distancePx: s.distancePx ?? cfg.toast.swipeToDismiss.distancePx,
+        velocity: s.velocity ?? cfg.toast.swipeToDismiss.velocity,
+      },
+      {
+        canStart: isDismissible,
+        onStart: () => pause("swipe"),
+        onCancel: () => resume("swipe"),
+        onDismiss: (direction) =>
+          exitWith({
+            preset: "slide",
+            direction,
+            durationMs: state.animations?.exit?.durationMs,
+            easing: state.animations?.exit?.easing,
+          }),
+      }
     );
-    el.appendChild(x);
   }
 
-  // Timeout auto-dismiss and visual cue
-  let timer: number | undefined;
-  if (timeoutMs && timeoutMs > 0) {
-    addTimeoutCue(el, opts.animations || cfg.toast.animations, timeoutMs);
-    timer = window.setTimeout(
-      () => beginExit(el, container, pos, opts.animations?.exit),
-      timeoutMs
+  // Enter animation on the toast element (once it is actually in the slot)
+  const onMount = () => {
+    mounted = true;
+    const enterResolved = resolveAnim(
+      motion,
+      "enter",
+      (opts.animations && opts.animations.enter) || defaultAnims.enter
     );
-  }
+    const animEnabled = !!cfg.animation?.enable;
 
-  // Enter animation on the toast element
-  const enterResolved = resolveAnim(
-    pos,
-    "enter",
-    (opts.animations && opts.animations.enter) || cfg.toast.animations.enter
-  );
-  const animEnabled = !!cfg.animation?.enable;
+    if (!prefersReducedMotion() && animEnabled && enterResolved.durationMs > 0) {
+      applyAnim(el, "enter", enterResolved);
+      // Clean enter classes after they complete, so exit always re-triggers
+      onceAnimationEnd(el, enterResolved.durationMs, () => {
+        removeMatchingClasses(el, /^pj-enter-/);
+      });
+    }
 
-  if (!prefersReducedMotion() && animEnabled && enterResolved.durationMs > 0) {
-    applyAnim(el, "enter", enterResolved);
-    // Clean enter classes after they complete, so exit always re-triggers
-    onceAnimationEnd(el, enterResolved.durationMs, () => {
-      removeMatchingClasses(el, /^pj-enter-/);
+    onVisibilityChange(); // mounted while the page is already hidden
+    startTimer();
+    speak();
+    raiseSystemNotify();
+    // Group members / repeats that arrived while queued are shown now too
+    const callbacks = new Set([state.onShow, ...[...groupItems, ...repeats].map((o) => o.onShow)]);
+    callbacks.forEach((cb) => {
+      try {
+        cb?.();
+      } catch (e) {
+        console.error("[PromptJS] toast onShow error:", e);
+      }
     });
-  }
+  };
+
+  // Stack overflow / replace removed us from the slot without an exit animation
+  const onEvict = () => {
+    (el as any)._pjExiting = true;
+    finish();
+  };
 
   // Compose container
   container.appendChild(el);
 
+  // AbortSignal: dismiss when mounted, or drop from the position queue
+  function onAbort() {
+    exit();
+  }
+  opts.signal?.addEventListener("abort", onAbort, { once: true });
+
+  const update = (partial: Partial<ToastOptions>) => {
+    if ((el as any)._pjExiting) return;
+    state = { ...state, ...partial };
+    if (historyIds.length) history.patch(historyIds[historyIds.length - 1], partial);
+    render();
+    if ("timeoutMs" in partial) startTimer();
+    // Changed wording (promise settled, dedupe repeat, new group member) is announced again
+    if (mounted && ("title" in partial || "message" in partial || "kind" in partial)) {
+      speak();
+      raiseSystemNotify(); // e.g. toast.promise settling while the user is in another tab
+    }
+  };
+
+  const controller: ToastController = {
+    dismiss: exit,
+    update,
+    el,
+    get isVisible() {
+      return mounted && !(el as any)._pjExiting;
+    },
+    info: () => ({
+      id: state.id,
+      kind: state.kind || "neutral",
+      title: state.title,
+      message: state.message,
+      position: pos,
+      anchor: opts.anchor,
+      container: opts.container,
+      queued: !mounted,
+    }),
+    bump: (next) => {
+      count++;
+      repeats.push(next);
+      track(next);
+      // Placement, signal and callbacks stay with the original toast (the repeat's run alongside)
+      const {
+        position, anchor, placement, container: host, behavior, maxVisible, signal, onShow, onDismiss,
+        ...rest
+      } = next;
+      update({ ...rest, timeoutMs: next.timeoutMs ?? state.timeoutMs });
+      if (mounted) {
+        try {
+          onShow?.();
+        } catch (e) {
+          console.error("[PromptJS] toast onShow error:", e);
+        }
+      }
+    },
+    addToGroup: (next) => {
+      groupItems.push(next);
+      track(next);
+      update({
+        kind: next.kind,
+        message: next.message,
+        actions: next.actions,
+        timeoutMs: next.timeoutMs ?? state.timeoutMs,
+      });
+      if (mounted) {
+        try {
+          next.onShow?.();
+        } catch (e) {
+          console.error("[PromptJS] toast onShow error:", e);
+        }
+      }
+    },
+  };
+  // Built after the controller so custom renderers receive a usable handle
+  render();
+
+  track(opts);
+  live.add(controller);
+  if (opts.dedupeKey) byDedupeKey.set(opts.dedupeKey, controller);
+  if (opts.group) byGroup.set(opts.group, controller);
+
   // Mount through Manager (container is the unit in the slot)
-  manager.showToast(container, pos, behavior, maxVisible);
+  manager.showToast(
+    container,
+    pos,
+    behavior,
+    maxVisible,
+    { onMount, onEvict },
+    { anchor: opts.anchor, placement: opts.placement, container: opts.container }
+  );
+  return controller;
+}
+
+/* ------------------------------------------------------------
+   Public API
+-------------------------------------------------------------*/
+
+/**
+ * Show a toast. A live toast with the same `dedupeKey` is refreshed (×N badge)
+ * instead of mounting a new one; a live toast with the same `group` absorbs the
+ * new one into an expandable summary. Both cases return the existing toast's handle
+ * (each caller's onShow/onDismiss still fire).
+ */
+export function toast(opts: ToastOptions): ToastHandle {
+  const dupe = opts.dedupeKey ? byDedupeKey.get(opts.dedupeKey) : undefined;
+  if (dupe) {
+    dupe.bump(opts);
+    return dupe;
+  }
+  const head = opts.group ? byGroup.get(opts.group) : undefined;
+  if (head) {
+    head.addToGroup(opts);
+    return head;
+  }
+  return createToast(opts);
+}
+
+/** Resolve a toast.promise() state spec into toast options. */
+function promiseState<A>(
+  spec: ToastPromiseState<A>,
+  arg: A
+): Partial<ToastOptions> {
+  const v = typeof spec === "function" ? spec(arg) : spec;
+  return typeof v === "string" ? { message: v } : v;
+}
+
+/**
+ * Track a promise with one toast: a sticky spinner while pending, then the same
+ * element morphs into success/error. The timeout (and its cue) starts only after
+ * settlement. Returns the original promise for chaining.
+ */
+toast.promise = function <T>(
+  promise: Promise<T>,
+  states: ToastPromiseOptions<T>,
+  opts: Partial<ToastOptions> = {}
+): Promise<T> {
+  const loading = promiseState(states.loading, undefined);
+  const t = createToast({
+    ...opts,
+    ...loading,
+    message: loading.message ?? "",
+    loading: true,
+    timeoutMs: 0,
+  });
+
+  const settle = <A>(kind: NotifyKind, spec: ToastPromiseState<A>, arg: A): void => {
+    let next: Partial<ToastOptions>;
+    try {
+      next = promiseState(spec, arg);
+    } catch (e) {
+      // A throwing mapper still reports failure: the error state, or a plain error toast
+      console.error("[PromptJS] toast.promise mapper error:", e);
+      if (kind === "success") {
+        settle("error", states.error, e);
+        return;
+      }
+      next = { message: config.get().i18n.titles.error };
+    }
+    t.update({
+      kind,
+      ...next,
+      loading: false,
+      timeoutMs:
+        next.timeoutMs ?? opts.timeoutMs ?? config.get().toast.defaultTimeoutMs,
+    });
+  };
+  promise.then(
+    (value) => settle("success", states.success, value),
+    (err) => settle("error", states.error, err)
+  );
+  return promise;
+};
+
+/**
+ * Long-running work: a sticky toast with a caller-driven bar (styled like the
+ * timeout cue). `setProgress(null)` shows an indeterminate bar; milestones are
+ * announced politely every `announceStep` percent. `done()` morphs it into a
+ * success/error toast that times out normally.
+ */
+toast.progress = function (opts: ToastProgressOptions): ToastProgressHandle {
+  const { progress = null, announceStep = 25, ...rest } = opts;
+  const t = createToast({ ...rest, timeoutMs: 0 });
+  const cfg = config.get();
+
+  const bar = document.createElement("div");
+  const edge = cfg.toast.animations.timeoutCue?.position === "top" ? "top" : "bottom";
+  bar.className = `pj-timeout-bar pj-${edge} pj-progress-bar`;
+  bar.style.height = `${cfg.toast.animations.timeoutCue?.thicknessPx ?? 3}px`;
+  bar.setAttribute("role", "progressbar");
+  bar.setAttribute("aria-valuemin", "0");
+  bar.setAttribute("aria-valuemax", "100");
+  t.el.appendChild(bar);
+
+  let lastMilestone = 0;
+  let finished = false;
+  const setProgress = (value: number | null) => {
+    if (finished) return;
+    bar.classList.toggle("pj-indeterminate", value === null);
+    if (value === null) {
+      bar.removeAttribute("aria-valuenow");
+      return;
+    }
+    const v = Math.min(1, Math.max(0, value));
+    const pct = Math.round(v * 100);
+    bar.style.setProperty("--pj-progress", String(v));
+    bar.setAttribute("aria-valuenow", String(pct));
+
+    // Milestones (25%, 50%, …) are announced politely (unless the toast is silenced)
+    if (announceStep > 0) {
+      const milestone = Math.floor(pct / announceStep) * announceStep;
+      if (milestone > lastMilestone) {
+        lastMilestone = milestone;
+        const template = config.get().i18n.progressPercent ?? "{percent}% complete";
+        if (rest.announce !== "off") announce(template.replace("{percent}", String(milestone)));
+      }
+    }
+  };
+  setProgress(progress);
 
-  // Controller
   return {
-    dismiss: () => {
-      if (timer) window.clearTimeout(timer);
-      beginExit(el, container, pos, opts.animations?.exit);
+    dismiss: t.dismiss,
+    update: t.update,
+    get isVisible() {
+      return t.isVisible;
+    },
+    setProgress,
+    setMessage: (message) => t.update({ message }),
+    done: (kind = "success", message) => {
+      if (finished) return;
+      finished = true;
+      bar.remove();
+      t.update({
+        kind,
+        ...(message !== undefined ? { message } : {}),
+        timeoutMs: opts.timeoutMs ?? config.get().toast.defaultTimeoutMs,
+      });
     },
   };
-}
+};
+
+/**
+ * Deferred destructive action: show a toast with an "Undo" action and run
+ * `commit()` only once the toast goes away without it (timeout, dismissal,
+ * abort, or `pagehide`). Resolves with the path taken; rejects if that callback throws.
+ * Never deduped or grouped: a merged toast would drop the other one's commit/undo.
+ */
+toast.undo = function (opts: ToastUndoOptions): Promise<"undo" | "commit"> {
+  const { commit, undo, undoText, ...options } = opts;
+  // Stripped for untyped callers too
+  const { dedupeKey: _dedupeKey, group: _group, ...rest } = options as ToastOptions;
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const run = (path: "undo" | "commit", fn?: () => void | Promise<void>) => {
+      if (settled) return;
+      settled = true;
+      window.removeEventListener("pagehide", onPageHide);
+      Promise.resolve()
+        .then(fn)
+        .then(() => resolve(path), reject);
+    };
+
+    // Leaving the page counts as "keep it": commit starts right away (no time to wait a tick)
+    const onPageHide = () => {
+      if (settled) return;
+      settled = true;
+      new Promise<void>((done) => done(commit())).then(() => resolve("commit"), reject);
+      t.dismiss(); // no stale Undo if the page comes back from the bfcache
+    };
+    window.addEventListener("pagehide", onPageHide);
+
+    const t = createToast({
+      ...rest,
+      actions: [
+        {
+          id: "undo",
+          text: undoText ?? config.get().i18n.undo ?? "Undo",
+          onClick: () => run("undo", undo),
+        },
+      ],
+      onDismiss: () => {
+        try {
+          rest.onDismiss?.();
+        } finally {
+          run("commit", commit);
+        }
+      },
+    });
+  });
+};
+
+/**
+ * Dismiss every live toast (optionally only one page-level position, leaving
+ * anchored and container toasts). Queued toasts are dropped first so the exits
+ * don't pull them into view.
+ */
+toast.clear = function (position?: ToastPosition): void {
+  // A position means the page-level slot: anchored and container toasts only go with clear()
+  const targets = Array.from(live).filter((t) => {
+    if (!position) return true;
+    const info = t.info();
+    return info.position === position && !info.anchor && !info.container;
+  });
+  targets.filter((t) => t.info().queued).forEach((t) => t.dismiss());
+  targets.filter((t) => !t.info().queued).forEach((t) => t.dismiss());
+};
+
+/** Dismiss the live toast(s) created with this `id`. Returns false if none matched. */
+toast.dismiss = function (id: string): boolean {
+  const targets = Array.from(live).filter((t) => t.info().id === id);
+  targets.forEach((t) => t.dismiss());
+  return targets.length > 0;
+};
+
+/** Visible and queued toasts (not those already exiting), oldest first. */
+toast.getAll = function (): ToastInfo[] {
+  return Array.from(live, (t) => t.info());
+};
+
+/** Opt-in notification history (config.toast.history.enable): headless store + drawer. */
+toast.history = {
+  list: history.list,
+  subscribe: history.subscribe,
+  unreadCount: history.unreadCount,
+  markRead: history.markRead,
+  clear: history.clear,
+  open: history.open,
+};
+
+/**
+ * Ask for browser notification permission (needed by `systemNotify`). Call from a
+ * user gesture; resolves the resulting permission, or "unsupported".
+ */
+toast.requestPermission = systemNotify.requestPermission;
 
 // Temporary alias to ease migration; document toast() as the primary API
 export const notify = toast;
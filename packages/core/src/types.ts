@@ -5,7 +5,7 @@
  *
  * Contains:
  *   - ButtonVariant, ButtonDef
- *   - ModalOptions, ModalInstance
+ *   - ModalOptions, ModalInstance, ModalResult
  *   - NotifyKind, NotifyOptions
  *   - Theme, ModalConcurrency
  *
@@ -23,10 +23,17 @@ export interface ButtonDef {
 }
 
 export type Theme = 'light' | 'dark' | 'auto';
-export type ModalConcurrency = 'queue' | 'reject';
+/**
+ * How a modal opens while another is already open:
+ * 'queue' waits, 'reject' throws, 'stack' opens on top of the current layer.
+ */
+export type ModalConcurrency = 'queue' | 'reject' | 'stack';
 
 export type NotifyKind = 'neutral' | 'info' | 'success' | 'warning' | 'error' | 'question';
 
+/** Per-call icon: trusted markup (e.g. inline SVG), an element (cloned), or false for none. */
+export type IconOverride = string | HTMLElement | false;
+
 export type ModalDraggable =
   | boolean
   | {
@@ -54,7 +61,24 @@ export interface BaseModalOptions {
   // Lifecycle & concurrency
   concurrency?: ModalConcurrency;
   onOpen?: (ctx: ModalInstance) => void;
-  onClose?: (result?: unknown) => void;
+  /**
+   * Runs once the modal is gone. `dismissal` is set when ESC, the backdrop, the
+   * header X or an AbortSignal closed it (`result` then repeats the reason);
+   * otherwise `result` is the button id / close() value.
+   */
+  onClose?: (result?: unknown, dismissal?: ModalDismissReason) => void;
+  /**
+   * Runs before every close (buttons, ESC, backdrop, header X, inst.close()).
+   * `reason` is the value passed to close(). Return false (or a Promise
+   * resolving to false) to keep the modal open. Further close attempts are
+   * ignored while a returned Promise is pending.
+   */
+  beforeClose?: (reason: unknown, inst: ModalInstance) => boolean | void | Promise<boolean | void>;
+  /**
+   * Aborting closes the modal with reason 'abort' (beforeClose is not consulted).
+   * A modal still waiting in the queue is removed from it and never opens.
+   */
+  signal?: AbortSignal;
 
   // Chrome
   showClose?: boolean;             // default true. Renders header "X" button.
@@ -78,6 +102,7 @@ export interface ModalOptions extends BaseModalOptions {
   content: string | Node;          // required content
   unsafeHTML?: boolean;            // bypass sanitization for content (use only for trusted content)
   buttons?: ButtonDef[];
+  icon?: IconOverride;             // header icon; default from kind (config.icons, then built-in)
 }
 
 export interface BareModalOptions extends Omit<BaseModalOptions, "title"> {
@@ -91,13 +116,27 @@ export interface BareModalOptions extends Omit<BaseModalOptions, "title"> {
   contentClass?: string;
 }
 
-export interface ModalInstance {
+/** Close reasons produced by the modal chrome (or an AbortSignal) rather than by a button/caller. */
+export type ModalDismissReason = 'esc' | 'backdrop' | 'close' | 'abort';
+
+/**
+ * Settled outcome of a modal. Narrow on `dismissed`:
+ *   - false → closed with a value (button id or close(value))
+ *   - true  → dismissed via ESC, backdrop, the header X or an AbortSignal
+ */
+export type ModalResult<T = unknown> =
+  | { dismissed: false; value: T }
+  | { dismissed: true; reason: ModalDismissReason };
+
+export interface ModalInstance<T = unknown> {
   id: string;
   close: (result?: unknown) => void;
   update: (partial: Partial<Pick<ModalOptions, "title" | "content" | "unsafeHTML" | "buttons">>) => void;
 
   readonly el: HTMLDivElement;
   readonly contentEl: HTMLElement;
+  /** Settles once the modal has fully closed (after exit animation). */
+  readonly result: Promise<ModalResult<T>>;
 }
 
 // ---------- Overlay-style notification dialog (OK) ----------
@@ -112,6 +151,7 @@ export interface NotifyOptions {
 }
 
 // Helper option types for alert/confirm/question
+// Dialog helpers reject with an AbortError when `signal` aborts, unless `abortResult` is set.
 export interface AlertOptions extends BaseModalOptions {
   okText?: string;             // falls back to i18n.ok
 }
@@ -121,6 +161,9 @@ export interface ConfirmOptions extends BaseModalOptions {
   noText?: string;             // falls back to i18n.no
   includeCancel?: boolean;     // default false
   cancelText?: string;         // falls back to i18n.cancel
+  abortResult?: boolean;       // resolve with this instead of rejecting on abort
+  rememberKey?: string;        // show "Don't ask again"; a remembered answer resolves without opening
+  unsafeHTML?: boolean;        // bypass sanitization for message (use only for trusted content)
 }
 
 export interface PromptOptions extends BaseModalOptions {
@@ -132,7 +175,81 @@ export interface PromptOptions extends BaseModalOptions {
   maxLength?: number;          // optional max length
   minLength?: number;          // optional min length
   pattern?: string;            // regex pattern for validation
-  validator?: (value: string) => boolean | string;  // custom validator, returns true or error message
+  validator?: (value: string) => boolean | string | Promise<boolean | string>;  // custom validator, returns true or error message (may be async)
+  onSubmit?: (value: string) => void | Promise<void>;  // runs after validation; throw/reject with a message to keep the dialog open
+  abortResult?: string | null; // resolve with this instead of rejecting on abort
+}
+
+export interface TypeToConfirmOptions extends BaseModalOptions {
+  confirmText?: string;        // danger button label; falls back to i18n.ok
+  cancelText?: string;         // falls back to i18n.cancel
+  caseInsensitive?: boolean;   // default false (exact match)
+  instruction?: string;        // overrides i18n.typeToConfirm; "{phrase}" is replaced
+  placeholder?: string;        // input placeholder
+  abortResult?: boolean;       // resolve with this instead of rejecting on abort
+}
+
+// ---------- Schema-driven form dialog ----------
+
+export type FormFieldType =
+  | 'text' | 'textarea' | 'number' | 'email' | 'password'
+  | 'select' | 'checkbox' | 'radio' | 'date';
+
+/** Value produced per field: strings for text-like/select/radio/date, number|null for number, boolean for checkbox. */
+export type FormValue = string | number | boolean | null;
+
+export interface FormFieldOption {
+  value: string;
+  label: string;
+  disabled?: boolean;
+}
+
+export interface FormField {
+  name: string;                // key in the resolved values object
+  type?: FormFieldType;        // default 'text'
+  label?: string;
+  placeholder?: string;
+  defaultValue?: FormValue;
+  options?: FormFieldOption[]; // select / radio
+  rows?: number;               // textarea rows
+  // Validation (same rules as prompt())
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  min?: number | string;       // number or date (yyyy-mm-dd) lower bound
+  max?: number | string;       // number or date (yyyy-mm-dd) upper bound
+  validator?: (value: FormValue, values: Record<string, FormValue>) => boolean | string;
+}
+
+export interface FormOptions extends BaseModalOptions {
+  message?: string;            // optional intro text above the fields
+  fields: FormField[];
+  okText?: string;             // falls back to i18n.ok
+  cancelText?: string;         // falls back to i18n.cancel
+  abortResult?: Record<string, FormValue> | null; // resolve with this instead of rejecting on abort
+}
+
+// ---------- Choice/select dialog ----------
+
+export interface ChoiceItem {
+  id: string;
+  label: string;
+  description?: string;        // secondary line under the label
+  disabled?: boolean;
+}
+
+export interface ChooseOptions extends BaseModalOptions {
+  message?: string;            // optional intro text above the list
+  items: ChoiceItem[];
+  multiple?: boolean;          // checkbox semantics; resolves string[] (default false → radio, resolves string)
+  selected?: string | string[];  // initially selected id(s)
+  filter?: boolean | { placeholder?: string };  // show a filter box above the list
+  emptyText?: string;          // shown when the filter matches nothing
+  okText?: string;             // falls back to i18n.ok
+  cancelText?: string;         // falls back to i18n.cancel
+  onDismissal?: string | string[] | null;  // value to return on ESC/backdrop/close/Cancel (default null; unlike question(), dismissal always settles)
+  abortResult?: string | string[] | null;  // resolve with this instead of rejecting on abort
 }
 
 export interface QuestionButton { id: string; text: string; variant?: ButtonVariant; }
@@ -141,6 +258,20 @@ export interface QuestionOptions extends BaseModalOptions {
   message: string;
   buttons: QuestionButton[];   // e.g., Yes/No/Cancel
   onDismissal?: string;        // button id to return when ESC/backdrop/close button pressed
+  abortResult?: string;        // button id to return on abort instead of rejecting
+  rememberKey?: string;        // show "Don't ask again"; a remembered answer resolves without opening
+  unsafeHTML?: boolean;        // bypass sanitization for message (use only for trusted content)
+}
+
+/**
+ * Storage adapter for remembered "Don't ask again" decisions (see remember.useStore).
+ * Values are the chosen button ids.
+ */
+export interface DecisionStore {
+  get(key: string): string | null;
+  set(key: string, value: string): void;
+  remove(key: string): void;
+  keys(): string[];
 }
 
 // ---------- Toasts (edge notifications) ----------
@@ -150,8 +281,17 @@ export type ToastPosition =
   | 'top-left' | 'top-center' | 'top-right'
   | 'bottom-left' | 'bottom-center' | 'bottom-right';
 
+/** Side of the anchor element an anchored toast prefers (start/end follow writing direction). */
+export type ToastPlacement = 'top' | 'bottom' | 'start' | 'end';
+
+/**
+ * How screen readers hear a toast (via the shared live regions). Default: 'assertive'
+ * for error/warning, 'polite' otherwise; 'off' keeps it silent.
+ */
+export type ToastAnnounce = 'polite' | 'assertive' | 'off';
+
 /** How multiple toasts are handled at a position. */
-export type ToastBehavior = 'stack' | 'queue' | 'replace';
+export type ToastBehavior = 'stack' | 'queue' | 'replace' | 'deck';
 
 /** Progress cue placement during auto-dismiss. */
 export type ToastProgressPosition = 'cover' | 'top' | 'bottom' | 'left' | 'right';
@@ -198,17 +338,138 @@ export interface ToastAnimations {
  * Small, non-blocking messages with position, behavior, and optional progress cue.
  */
 export interface ToastOptions {
+  id?: string;                     // caller-supplied id for toast.dismiss(id) / toast.getAll()
   kind?: NotifyKind;
-  title?: string;
-  message: string;
+  icon?: IconOverride;             // default from kind (config.icons, then built-in)
+  title?: string | Node;           // strings are sanitized HTML; Nodes are inserted as-is
+  message: string | Node;          // with `render`, the plain summary used for history
+  /**
+   * Own the toast body (avatars, links, framework components). Called once with the
+   * body element and the toast's handle; may return a cleanup run when the toast is
+   * gone. Dismiss button, timeout cue and animations stay managed by PromptJS.
+   */
+  render?: (el: HTMLElement, toast: ToastHandle) => void | (() => void);
   timeoutMs?: number;              // 0 = sticky
   dismissible?: boolean;           // show ×
   actions?: Array<{ id: string; text: string; onClick?: () => void | Promise<void> }>;
 
   position?: ToastPosition;        // default from config.toast.defaultPosition
+  /**
+   * Show next to this element instead of a screen corner ("Copied!" by a button).
+   * The toast follows the anchor on scroll/resize and flips sides when it would not fit.
+   */
+  anchor?: HTMLElement;
+  placement?: ToastPlacement;      // side of the anchor (default 'top')
+  container?: HTMLElement;         // mount into an inline slot inside this element (at `position`)
   behavior?: ToastBehavior;        // default from config.toast.behavior
   maxVisible?: number;             // cap for stack/queue (default from config)
   animations?: ToastAnimations;    // enter/exit + timeout progress cue
+  signal?: AbortSignal;            // abort dismisses the toast (or drops it from the queue)
+  loading?: boolean;               // show a spinner (used by toast.promise)
+  announce?: ToastAnnounce;        // live-region politeness (default by kind)
+  /**
+   * Also raise a browser Notification (needs granted permission, see
+   * toast.requestPermission): true = only while the tab is hidden, 'always' = every time.
+   */
+  systemNotify?: boolean | 'always';
+  pauseOnHover?: boolean;          // pause timer + cue while hovered (default from config)
+  pauseOnFocus?: boolean;          // pause while focus is inside the toast (default from config)
+  pauseOnPageHidden?: boolean;     // pause while the tab is hidden (default from config)
+  swipeToDismiss?: ToastSwipe;     // pointer swipe/flick dismisses dismissible toasts (default from config)
+  dedupeKey?: string;              // a live toast with the same key is refreshed (×N badge) instead
+  group?: string;                  // live toasts of a group collapse into one expandable summary
+  history?: boolean;               // record in toast.history (default config.toast.history.enable)
+  onShow?: () => void;             // the toast entered its slot (queued toasts: when dequeued)
+  onDismiss?: () => void;          // the toast is gone (dismissed, timed out, evicted or aborted)
+}
+
+/** A live toast as reported by toast.getAll(). */
+export interface ToastInfo {
+  id?: string;
+  kind: NotifyKind;
+  title?: string | Node;
+  message: string | Node;
+  position: ToastPosition;         // inside `container` when set; ignored for `anchor` toasts
+  anchor?: HTMLElement;            // set for toasts attached to an element
+  container?: HTMLElement;         // set for toasts in an inline container slot
+  queued: boolean;                 // waiting in its position queue (not shown yet)
+}
+
+export interface ToastProgressOptions extends Omit<ToastOptions, "loading" | "render"> {
+  progress?: number | null;        // initial value 0..1; null = indeterminate (default)
+  announceStep?: number;           // announce every N percent to screen readers (default 25; 0 = off)
+  timeoutMs?: number;              // applies after done(); the toast is sticky while in progress
+}
+
+/** Handle returned by toast.progress(). */
+export interface ToastProgressHandle extends ToastHandle {
+  /** 0..1, or null for an indeterminate bar. */
+  setProgress: (value: number | null) => void;
+  setMessage: (message: string | Node) => void;
+  /** Finish: switch to `kind` (default "success"), optionally replace the message, start the timeout. */
+  done: (kind?: NotifyKind, message?: string | Node) => void;
+}
+
+/** toast.undo(): the action is deferred until the toast leaves without "Undo". */
+// No dedupeKey/group: each undo toast owns its commit, so it can't be merged into another
+export interface ToastUndoOptions extends Omit<ToastOptions, "actions" | "dedupeKey" | "group"> {
+  commit: () => void | Promise<void>; // runs on timeout, dismissal, abort or pagehide
+  undo?: () => void | Promise<void>;  // runs when "Undo" is clicked (commit is skipped)
+  undoText?: string;                  // default i18n.undo
+}
+
+/** One recorded toast in toast.history. */
+export interface ToastHistoryEntry {
+  id: string;
+  kind: NotifyKind;
+  title?: string;                  // sanitized HTML (Node content is kept as escaped text)
+  message: string;                 // sanitized HTML (Node content is kept as escaped text)
+  timestamp: number;               // ms since epoch, when the toast was raised
+  read: boolean;
+  action?: string;                 // how it ended: an action id, "timeout" or "dismissed"
+}
+
+export interface ToastHistoryFilter {
+  kind?: NotifyKind;
+  unread?: boolean;
+}
+
+/**
+ * Swipe-to-dismiss: corners swipe horizontally, centers vertically toward their edge.
+ * `true` uses config.toast.swipeToDismiss thresholds.
+ */
+export type ToastSwipe =
+  | boolean
+  | {
+      distancePx?: number;             // release beyond this dismisses (default 80)
+      velocity?: number;               // or a flick faster than this, px/ms (default 0.5)
+    };
+
+/** Handle returned by toast(). */
+export interface ToastHandle {
+  dismiss: () => void;
+  /**
+   * Change a live toast in place (no exit/enter animation). Passing timeoutMs restarts
+   * the timer and its cue; position/behavior only apply when the toast is created.
+   */
+  update: (partial: Partial<ToastOptions>) => void;
+  /** True while the toast is in its slot and not dismissing. */
+  readonly isVisible: boolean;
+}
+
+/**
+ * One toast.promise() state: a message, toast options, or a function of the
+ * settled value/error returning either.
+ */
+export type ToastPromiseState<A = void> =
+  | string
+  | Partial<ToastOptions>
+  | ((arg: A) => string | Partial<ToastOptions>);
+
+export interface ToastPromiseOptions<T> {
+  loading: string | Partial<ToastOptions>;
+  success: ToastPromiseState<T>;
+  error: ToastPromiseState<unknown>;
 }
 
 // Internationalization bundle shape used by config and i18n helpers.
@@ -221,6 +482,20 @@ export interface I18nBundle {
   no: string;
   close: string;                  // modal header close aria-label
   dismiss: string;                // toast dismiss aria-label
+  typeToConfirm?: string;         // typeToConfirm() instruction; "{phrase}" is replaced
+  dontAskAgain?: string;          // label for the rememberKey checkbox
+  toastGroupSummary?: string;     // grouped toast title; "{count}" is replaced
+  showAll?: string;               // expand a grouped toast
+  showLess?: string;              // collapse a grouped toast
+  notifications?: string;         // toast history drawer title
+  all?: string;                   // history filter: every kind
+  general?: string;               // history filter: neutral toasts
+  markRead?: string;
+  markAllRead?: string;
+  clearAll?: string;
+  noNotifications?: string;       // empty history drawer
+  progressPercent?: string;       // toast.progress milestone announcement; "{percent}" is replaced
+  undo?: string;                  // toast.undo action label
   titles: {
     info: string;
     success: string;
@@ -20,7 +20,10 @@ export function useDialogs() {
       alert: ctx.alert,
       confirm: ctx.confirm,
       question: ctx.question,
-      prompt: ctx.prompt
+      prompt: ctx.prompt,
+      typeToConfirm: ctx.typeToConfirm,
+      form: ctx.form,
+      choose: ctx.choose
     };
   }, [ctx]);
 }
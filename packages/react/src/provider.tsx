@@ -7,7 +7,11 @@ import {
   confirm,
   question,
   prompt,
+  typeToConfirm,
+  form,
+  choose,
   i18n,
+  remember,
   version
 } from "@tlabsinc/promptjs-core";
 import type { PromptContextValue, PromptProviderProps, PromptTheme } from "./types";
@@ -48,7 +52,7 @@ export const PromptProvider: React.FC<PromptProviderProps> = ({
   }, [scope, zIndexBase]);
 
   const value = React.useMemo<PromptContextValue>(
-    () => ({ config, Modal, toast, alert, confirm, question, prompt, i18n, version }),
+    () => ({ config, Modal, toast, alert, confirm, question, prompt, typeToConfirm, form, choose, i18n, remember, version }),
     []
   );
 
@@ -67,7 +71,7 @@ export function usePrompt(): PromptContextValue {
   if (!ctx) {
     // Allow hooks to work without a provider by returning the core API directly.
     // This keeps usage friction very low.
-    return { config, Modal, toast, alert, confirm, question, prompt, i18n, version };
+    return { config, Modal, toast, alert, confirm, question, prompt, typeToConfirm, form, choose, i18n, remember, version };
   }
   return ctx;
 }
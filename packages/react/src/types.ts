@@ -7,7 +7,11 @@ import type {
   confirm as coreConfirm,
   question as coreQuestion,
   prompt as corePrompt,
+  typeToConfirm as coreTypeToConfirm,
+  form as coreForm,
+  choose as coreChoose,
   i18n as coreI18n,
+  remember as coreRemember,
   version as coreVersion
 } from "@tlabsinc/promptjs-core";
 
@@ -32,6 +36,10 @@ export interface PromptContextValue {
   confirm: typeof coreConfirm;
   question: typeof coreQuestion;
   prompt: typeof corePrompt;
+  typeToConfirm: typeof coreTypeToConfirm;
+  form: typeof coreForm;
+  choose: typeof coreChoose;
   i18n: typeof coreI18n;
+  remember: typeof coreRemember;
   version: typeof coreVersion;
 }